@@ -0,0 +1,44 @@
+/**
+ * Defines the interface for a query result cache store. Entries are tagged with the tables they were read from,
+ * so that a write to a table can evict every cached read of that table.
+ */
+export interface CacheStore {
+    /**
+     * Retrieves a cached value.
+     * @param key - The cache key.
+     * @returns The cached value, or undefined if it is missing or expired.
+     */
+    get(key: string): Promise<any | undefined>
+
+    /**
+     * Stores a value.
+     * @param key - The cache key.
+     * @param value - The value to store.
+     * @param ttl - The time-to-live of the entry, in milliseconds.
+     * @param tags - The tags of the entry, usually the tables the value was read from.
+     */
+    set(key: string, value: any, ttl: number, tags: string[]): Promise<void>
+
+    /**
+     * Removes every entry carrying at least one of the given tags.
+     * @param tags - The tags to invalidate.
+     */
+    invalidateTags(tags: string[]): Promise<void>
+
+    /**
+     * Removes every entry.
+     */
+    clear(): Promise<void>
+}
+
+/**
+ * Normalizes a table reference into a cache tag, dropping the schema, the alias and any quoting.
+ * For example, `public."Users" AS u` becomes `Users`.
+ * @param table - The table reference.
+ * @returns The cache tag of the table.
+ */
+export function tableTag(table: string): string {
+    const name = table.trim().split(/\s+/)[0]
+    const segments = name.split('.')
+    return segments[segments.length - 1].replace(/["`]/g, '')
+}
@@ -0,0 +1,134 @@
+import {CacheStore} from "./CacheStore";
+
+type CacheEntry = {
+    value: any
+    expiresAt: number
+    tags: string[]
+}
+
+/**
+ * An in-memory cache store that evicts the least recently used entries once it holds more than `maxEntries`.
+ * Values are copied when stored and when retrieved, so callers mutating a result never alter the cached entry.
+ */
+export default class MemoryCacheStore implements CacheStore {
+    /**
+     * The cached entries, ordered from least to most recently used.
+     */
+    private entries = new Map<string, CacheEntry>()
+    /**
+     * The keys of the entries carrying each tag.
+     */
+    private tagIndex = new Map<string, Set<string>>()
+
+    /**
+     * Creates an instance of MemoryCacheStore.
+     * @param maxEntries - The maximum number of entries kept in memory. Defaults to 1000.
+     */
+    constructor(private maxEntries = 1000) {
+    }
+
+    /**
+     * Retrieves a cached value and marks it as the most recently used.
+     * @param key - The cache key.
+     * @returns A copy of the cached value, or undefined if it is missing or expired.
+     */
+    async get(key: string) {
+        const entry = this.entries.get(key)
+
+        if (!entry) return undefined
+
+        if (entry.expiresAt <= Date.now()) {
+            this.remove(key)
+            return undefined
+        }
+
+        this.entries.delete(key)
+        this.entries.set(key, entry)
+
+        return copyValue(entry.value)
+    }
+
+    /**
+     * Stores a value, evicting the least recently used entries when the store is full.
+     * @param key - The cache key.
+     * @param value - The value to store, copied with copyValue().
+     * @param ttl - The time-to-live of the entry, in milliseconds.
+     * @param tags - The tags of the entry.
+     */
+    async set(key: string, value: any, ttl: number, tags: string[] = []) {
+        const copy = copyValue(value)
+
+        this.remove(key)
+
+        this.entries.set(key, {value: copy, expiresAt: Date.now() + ttl, tags})
+
+        tags.forEach(tag => {
+            if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set())
+            this.tagIndex.get(tag)!.add(key)
+        })
+
+        while (this.entries.size > this.maxEntries) {
+            this.remove(this.entries.keys().next().value as string)
+        }
+    }
+
+    /**
+     * Removes every entry carrying at least one of the given tags.
+     * @param tags - The tags to invalidate.
+     */
+    async invalidateTags(tags: string[]) {
+        tags.forEach(tag => {
+            const keys = this.tagIndex.get(tag)
+            if (!keys) return
+            Array.from(keys).forEach(key => this.remove(key))
+        })
+    }
+
+    /**
+     * Removes every entry.
+     */
+    async clear() {
+        this.entries.clear()
+        this.tagIndex.clear()
+    }
+
+    /**
+     * Removes an entry and its tag references.
+     * @param key - The cache key.
+     */
+    private remove(key: string) {
+        const entry = this.entries.get(key)
+        if (!entry) return
+
+        this.entries.delete(key)
+
+        entry.tags.forEach(tag => {
+            const keys = this.tagIndex.get(tag)
+            if (!keys) return
+            keys.delete(key)
+            if (!keys.size) this.tagIndex.delete(tag)
+        })
+    }
+}
+
+/**
+ * Deep-copies a cached value, keeping the types the driver parses values into: arrays and plain objects are copied
+ * recursively, Buffers and Dates are copied as such, and other class instances are kept as they are.
+ * @param value - The value to copy.
+ * @returns The copy.
+ */
+function copyValue(value: any): any {
+    if (typeof value !== 'object' || value === null) return value
+
+    if (Array.isArray(value)) return value.map(copyValue)
+
+    if (Buffer.isBuffer(value)) return Buffer.from(value)
+
+    if (value instanceof Date) return new Date(value.getTime())
+
+    const prototype = Object.getPrototypeOf(value)
+
+    if (prototype !== Object.prototype && prototype !== null) return value
+
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, copyValue(item)]))
+}
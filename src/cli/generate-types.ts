@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import {mkdir, writeFile} from 'fs/promises'
+import {dirname} from 'path'
+import QueryExecutor from '../core/QueryExecutor'
+import Introspector from '../schema/Introspector'
+import TypeGenerator from '../schema/TypeGenerator'
+
+const USAGE = `Usage: pg-query-sdk-generate --out <file> [--url <connection string>] [--schema <name>]... [--table-map <name>]
+
+Writes the row types of the tables of the given schemas, and a table map to type Database with.
+
+  --out        The TypeScript file to write.
+  --url        The connection string. Defaults to the DATABASE_URL environment variable.
+  --schema     A schema to read, repeatable. Defaults to public.
+  --table-map  The name of the table map interface. Defaults to Tables.`
+
+interface CliOptions {
+    out?: string
+    url?: string
+    schemas: string[]
+    tableMap?: string
+}
+
+/**
+ * Parses the command line arguments.
+ * @param args - The arguments, without the node executable and script path.
+ * @returns The parsed options.
+ * @throws Error if an argument is unknown or misses its value.
+ */
+function parseArgs(args: string[]): CliOptions {
+    const options: CliOptions = {schemas: []}
+
+    for (let i = 0; i < args.length; i++) {
+        const flag = args[i]
+        const value = args[i + 1]
+
+        if (!['--out', '--url', '--schema', '--table-map'].includes(flag)) {
+            throw new Error(`Unknown argument ${flag}`)
+        }
+
+        if (value === undefined || value.startsWith('--')) {
+            throw new Error(`${flag} expects a value`)
+        }
+
+        i++
+
+        switch (flag) {
+            case '--out':
+                options.out = value
+                break
+            case '--url':
+                options.url = value
+                break
+            case '--schema':
+                options.schemas.push(value)
+                break
+            case '--table-map':
+                options.tableMap = value
+                break
+        }
+    }
+
+    return options
+}
+
+/**
+ * Introspects the database and writes the generated types.
+ * @param args - The command line arguments.
+ */
+async function main(args: string[]) {
+    if (args.includes('--help') || args.includes('-h')) {
+        console.log(USAGE)
+        return
+    }
+
+    const options = parseArgs(args)
+    const connectionString = options.url ?? process.env.DATABASE_URL
+
+    if (!options.out || !connectionString) {
+        throw new Error(`--out and a connection string are required\n\n${USAGE}`)
+    }
+
+    const schemas = options.schemas.length ? options.schemas : ['public']
+    const executor = new QueryExecutor({connectionString})
+
+    try {
+        const schema = await new Introspector(executor).introspect(schemas)
+
+        const source = new TypeGenerator({
+            defaultSchema: schemas[0],
+            tableMapName: options.tableMap
+        }).generate(schema)
+
+        await mkdir(dirname(options.out), {recursive: true})
+        await writeFile(options.out, source)
+
+        console.log(`Wrote ${schema.tables.length} tables and ${schema.enums.length} enums to ${options.out}`)
+    } finally {
+        await executor.close()
+    }
+}
+
+main(process.argv.slice(2)).catch(error => {
+    console.error(error instanceof Error ? error.message : error)
+    process.exitCode = 1
+})
@@ -2,43 +2,107 @@ import {Dialect} from '../dialects/Dialect'
 import PostgresDialect from '../dialects/PostgresDialect'
 import QueryExecutor from './QueryExecutor'
 import QueryBuilder from '../query/QueryBuilder'
-import TransactionManager from './TransactionManager'
+import TransactionManager, {TransactionOptions} from './TransactionManager'
+import {CacheStore, tableTag} from '../cache/CacheStore'
+import MemoryCacheStore from '../cache/MemoryCacheStore'
+import QueryEvents, {ParamRedaction, QueryEventName, QueryListener, SlowQueryOptions, slowQueryLogger} from './QueryEvents'
 
 interface DatabaseOptions {
-    connectionString: string
+    /**
+     * The connection string of the database. Required unless `primary` is given.
+     */
+    connectionString?: string
+    /**
+     * The connection string of the primary database, running writes and transactions. Takes precedence over `connectionString`.
+     */
+    primary?: string
+    /**
+     * The connection strings of the read replicas. Reads built with `table()` are spread across them in turn.
+     */
+    replicas?: string[]
+    /**
+     * How long reads stay on the primary after a write, in milliseconds, so that they see the written rows.
+     * Reads are not sticky when omitted. Use session() to scope the window to a request.
+     */
+    stickyPrimary?: number
     dialect?: Dialect
+    /**
+     * The default time-to-live of cached query results, in milliseconds. Results are not cached when omitted.
+     */
     defaultCacheTTL?: number
+    /**
+     * The result cache store. Defaults to an in-memory LRU store; `false` disables caching.
+     */
+    cache?: CacheStore | false
+    /**
+     * How query parameters are passed to the event listeners. Defaults to `true`, replacing every value with `[REDACTED]`.
+     */
+    redactParams?: ParamRedaction
+    /**
+     * Logs the queries slower than a threshold, to `console.warn` unless a log function is given.
+     */
+    slowQuery?: SlowQueryOptions
 }
 
 /**
  * Represents a database connection and provides methods for querying and managing transactions.
+ * @template Tables A map from table names to row types, such as the one written by the type generator,
+ * used to infer the row type of `table()`.
  */
-export default class Database {
+export default class Database<Tables = {}> {
     private executor: QueryExecutor
     private dialect: Dialect
-    private transactionManager: TransactionManager
+    private transactionManager?: TransactionManager
     private defaultCacheTTL?: number
+    /**
+     * The number of transactions this instance is nested in, 0 outside of a transaction.
+     */
+    private depth = 0
 
     /**
      * Creates an instance of the Database.
      * @param options - The options for the database connection.
+     * @param executor - An optional executor to use instead of opening new pools (used for transactions and sessions).
+     * @throws Error if neither a connection string nor a primary is given without an executor.
      */
-    constructor(options: DatabaseOptions) {
+    constructor(options: DatabaseOptions, executor?: QueryExecutor) {
+        const connectionString = options.primary ?? options.connectionString
+
+        if (!executor && !connectionString) {
+            throw new Error('A connection string or a primary is required')
+        }
+
         this.dialect = options.dialect ?? new PostgresDialect()
-        this.executor = new QueryExecutor(options)
-        this.transactionManager = new TransactionManager(
-            this.executor.getPool()!
-        )
+        this.executor = executor ?? new QueryExecutor({
+            connectionString: connectionString!,
+            replicas: options.replicas,
+            stickyPrimary: options.stickyPrimary,
+            cache: options.cache === false
+                ? undefined
+                : options.cache ?? new MemoryCacheStore(),
+            events: new QueryEvents(options.redactParams)
+        })
+        if (options.slowQuery) {
+            this.on('query:end', slowQueryLogger(options.slowQuery))
+        }
+        const pool = this.executor.getPool()
+        if (pool) {
+            this.transactionManager = new TransactionManager(pool)
+        }
         this.defaultCacheTTL = options.defaultCacheTTL
     }
 
     /**
      * Creates a QueryBuilder for a specific table.
+     * The row type is inferred from the table map for known tables, or given as a type argument.
+     * Tables of the map joined by name widen the row type with their columns.
      * @param name - The name of the table.
      * @returns A QueryBuilder instance.
      */
-    table<T = any>(name: string) {
-        return new QueryBuilder<T>(
+    table<K extends keyof Tables & string>(name: K): QueryBuilder<Tables[K], Tables[K], Tables>
+    table<T = any>(name: string): QueryBuilder<T, T, Tables>
+    table(name: string): QueryBuilder<any, any, Tables> {
+        return new QueryBuilder(
             name,
             this.executor,
             this.dialect,
@@ -48,28 +112,119 @@ export default class Database {
 
     /**
      * Executes a transaction.
+     * Cached reads are bypassed inside the transaction, and the tables it writes to are evicted from the cache once it commits.
+     * Called on a transactional Database, it runs the callback within a savepoint of the enclosing transaction instead:
+     * an error rolls back only the work of the callback, and the enclosing transaction decides whether it is committed.
+     * Nested transactions started concurrently on the same Database run one after another, while a transaction started
+     * from within a nested callback is nested in it.
      * @param callback - The function to execute within the transaction. It receives a transactional Database instance.
+     * @param options - The isolation level, access mode and retry policy of the transaction.
+     * Nested transactions run in the mode of the enclosing transaction and ignore them.
      * @returns The result of the callback function.
      */
     async transaction<T>(
-        callback: (trxDb: Database) => Promise<T>
+        callback: (trxDb: Database<Tables>) => Promise<T>,
+        options: TransactionOptions = {}
     ): Promise<T> {
-        return this.transactionManager.transaction(async trxClient => {
-            const trxExecutor = new QueryExecutor(
-                undefined,
-                trxClient
+        const client = this.executor.getClient()
+
+        if (client) {
+            return TransactionManager.savepoint(client, `sp_${this.depth}`, () =>
+                callback(this.nested(this.executor))
             )
+        }
 
-            const trxDb = new Database({
-                connectionString: '',
-                dialect: this.dialect,
-                defaultCacheTTL: this.defaultCacheTTL
-            })
+        if (!this.transactionManager) {
+            throw new Error('Transactions require a connection pool')
+        }
 
-            trxDb.setExecutor(trxExecutor)
+        const invalidated = new Set<string>()
 
-            return callback(trxDb)
-        })
+        const result = await this.transactionManager.transaction(async trxClient =>
+            callback(this.nested(this.executor.forClient(trxClient, invalidated))),
+            options
+        )
+
+        await this.executor.invalidate([...invalidated])
+
+        return result
+    }
+
+    /**
+     * Creates a Database sharing the pools, cache and listeners of this one, with its own sticky-primary window:
+     * after a write through it, only its own reads stay on the primary. Create one per request for read-your-writes
+     * consistency without sending the reads of other requests to the primary.
+     * @returns A Database instance.
+     */
+    session(): Database<Tables> {
+        return new Database<Tables>({
+            dialect: this.dialect,
+            defaultCacheTTL: this.defaultCacheTTL
+        }, this.executor.session())
+    }
+
+    /**
+     * Creates the Database instance passed to a transaction callback, one level deeper than this one.
+     * @param executor - The executor bound to the transaction client.
+     * @returns A transactional Database instance.
+     */
+    private nested(executor: QueryExecutor) {
+        const trxDb = new Database<Tables>({
+            dialect: this.dialect,
+            defaultCacheTTL: this.defaultCacheTTL
+        }, executor)
+
+        trxDb.depth = this.depth + 1
+
+        return trxDb
+    }
+
+    /**
+     * Registers a listener of the query lifecycle: `query:start` before a query is sent, then `query:end` or `query:error`.
+     * Listeners are shared with the transactions of this database. Results served from the cache emit no event.
+     * @param event - The event to listen to.
+     * @param listener - The function called with the SQL, the redacted parameters, and the outcome of the query.
+     * @returns The current Database instance.
+     */
+    on<E extends QueryEventName>(event: E, listener: QueryListener<E>) {
+        this.executor.getEvents().on(event, listener)
+        return this
+    }
+
+    /**
+     * Removes a listener registered with on().
+     * @param event - The event the listener was registered for.
+     * @param listener - The listener to remove.
+     * @returns The current Database instance.
+     */
+    off<E extends QueryEventName>(event: E, listener: QueryListener<E>) {
+        this.executor.getEvents().off(event, listener)
+        return this
+    }
+
+    /**
+     * Evicts the cached results read from the given tables.
+     * Use it after writing to a table through raw queries.
+     * @param tables - The names of the tables that were written to.
+     */
+    async invalidateCache(tables: string[]) {
+        await this.executor.invalidate(tables.map(tableTag))
+    }
+
+    /**
+     * Returns the query executor, bound to the transaction client inside a transaction.
+     * @returns The QueryExecutor instance.
+     */
+    getExecutor(): QueryExecutor {
+        return this.executor
+    }
+
+    /**
+     * Returns the dialect the queries are compiled with.
+     * @returns The Dialect instance.
+     */
+    getDialect(): Dialect {
+        return this.dialect
     }
 
     /**
@@ -93,4 +248,4 @@ export default class Database {
     ): R {
         return new RepoClass(this.executor, this.dialect)
     }
-}
\ No newline at end of file
+}
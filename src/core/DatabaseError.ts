@@ -0,0 +1,164 @@
+/**
+ * The fields of a driver error, as reported by PostgreSQL or by Node.js for network errors.
+ */
+interface DriverError {
+    message?: string
+    code?: string
+    detail?: string
+    schema?: string
+    table?: string
+    column?: string
+    constraint?: string
+}
+
+/**
+ * The Node.js error codes of a failed or lost network connection.
+ */
+const NETWORK_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EHOSTUNREACH', 'EPIPE']
+
+/**
+ * The SQLSTATE codes of a server refusing or ending the connection, besides the connection exception class 08.
+ */
+const CONNECTION_CODES = ['57P01', '57P02', '57P03', '28000', '28P01']
+
+/**
+ * An error raised by the database or the driver while running a query.
+ * Subclasses identify the common failures, so callers can handle them without parsing the message.
+ */
+export default class DatabaseError extends Error {
+    /**
+     * The SQLSTATE code of the error, or the Node.js error code of a network error.
+     */
+    readonly code?: string
+    readonly detail?: string
+    readonly schema?: string
+    readonly table?: string
+    readonly column?: string
+    readonly constraint?: string
+    /**
+     * The SQL text of the failed query, with its string literals redacted. Parameters are never included.
+     */
+    readonly sql?: string
+    /**
+     * The original driver error.
+     */
+    readonly cause: unknown
+
+    /**
+     * Creates an instance of DatabaseError.
+     * @param cause - The driver error.
+     * @param sql - The SQL text of the failed query, redacted before being stored.
+     */
+    constructor(cause: unknown, sql?: string) {
+        const driver: DriverError = typeof cause === 'object' && cause !== null ? cause : {}
+
+        super(driver.message ?? String(cause))
+
+        this.name = new.target.name
+        this.cause = cause
+        this.code = driver.code
+        this.detail = driver.detail
+        this.schema = driver.schema
+        this.table = driver.table
+        this.column = driver.column
+        this.constraint = driver.constraint
+        this.sql = sql === undefined ? undefined : redactSql(sql)
+    }
+}
+
+/**
+ * A row would duplicate the value of a unique index or constraint (SQLSTATE 23505).
+ */
+export class UniqueViolationError extends DatabaseError {
+}
+
+/**
+ * A row references a missing row, or is still referenced (SQLSTATE 23503).
+ */
+export class ForeignKeyViolationError extends DatabaseError {
+}
+
+/**
+ * A NOT NULL column would be set to NULL (SQLSTATE 23502).
+ */
+export class NotNullViolationError extends DatabaseError {
+}
+
+/**
+ * A row fails a CHECK constraint (SQLSTATE 23514).
+ */
+export class CheckViolationError extends DatabaseError {
+}
+
+/**
+ * A transaction conflicts with a concurrent one and may succeed if run again:
+ * serialization failure (SQLSTATE 40001) or deadlock detected (SQLSTATE 40P01).
+ */
+export class SerializationFailureError extends DatabaseError {
+}
+
+/**
+ * A query was canceled by the statement timeout or by a cancel request (SQLSTATE 57014).
+ */
+export class QueryTimeoutError extends DatabaseError {
+}
+
+/**
+ * The connection could not be opened, was refused, or was lost.
+ */
+export class ConnectionError extends DatabaseError {
+}
+
+/**
+ * Wraps a driver error in the DatabaseError subclass matching its SQLSTATE code.
+ * DatabaseError instances are returned as-is.
+ * @param error - The driver error.
+ * @param sql - The SQL text of the failed query.
+ * @returns The DatabaseError instance.
+ */
+export function toDatabaseError(error: unknown, sql?: string): DatabaseError {
+    if (error instanceof DatabaseError) return error
+
+    const code: unknown = (error as DriverError | undefined)?.code
+    const message = error instanceof Error ? error.message : ''
+
+    switch (code) {
+        case '23505':
+            return new UniqueViolationError(error, sql)
+        case '23503':
+            return new ForeignKeyViolationError(error, sql)
+        case '23502':
+            return new NotNullViolationError(error, sql)
+        case '23514':
+            return new CheckViolationError(error, sql)
+        case '40001':
+        case '40P01':
+            return new SerializationFailureError(error, sql)
+        case '57014':
+            return new QueryTimeoutError(error, sql)
+    }
+
+    // pg reports its client-side query_timeout without a code.
+    if (/^Query read timeout/.test(message)) {
+        return new QueryTimeoutError(error, sql)
+    }
+
+    const lost = typeof code === 'string'
+        && (code.startsWith('08') || CONNECTION_CODES.includes(code) || NETWORK_CODES.includes(code))
+
+    // pg reports a dropped connection without a code.
+    if (lost || /^Connection terminated/.test(message)) {
+        return new ConnectionError(error, sql)
+    }
+
+    return new DatabaseError(error, sql)
+}
+
+/**
+ * Replaces the string literals of a SQL text, which may hold data, with `'[REDACTED]'`.
+ * @param sql - The SQL text.
+ * @returns The redacted SQL text.
+ */
+export function redactSql(sql: string): string {
+    return sql.replace(/'(?:[^']|'')*'/g, `'[REDACTED]'`)
+}
@@ -1,4 +1,5 @@
 import {Dialect} from "../dialects/Dialect";
+import Json from "../query/Json";
 
 type SQLParam = string | number | boolean | Date | null | Buffer | any[]
 
@@ -17,11 +18,12 @@ export default class ParamContext {
 
     /**
      * Adds a value to the parameter list and returns its dialect-specific placeholder.
+     * Json values are serialized to their JSON text.
      * @param value - The value to add.
      * @returns The placeholder string for the added parameter.
      */
     add(value: any) {
-        this.params.push(value)
+        this.params.push(value instanceof Json ? value.toString() : value)
         return this.dialect.placeholder(this.params.length)
     }
 
@@ -0,0 +1,169 @@
+/**
+ * The payload of the `query:start` event, emitted before a query is sent to the database.
+ */
+export interface QueryStartEvent {
+    sql: string
+    /**
+     * The parameters of the query, redacted unless redaction is disabled.
+     */
+    params: unknown[]
+    /**
+     * Whether the query runs on the client of a transaction.
+     */
+    inTransaction: boolean
+}
+
+/**
+ * The payload of the `query:end` event, emitted when a query succeeds.
+ */
+export interface QueryEndEvent extends QueryStartEvent {
+    /**
+     * The time the query took, in milliseconds.
+     */
+    duration: number
+    /**
+     * The number of rows returned or affected, or null if the driver does not report it.
+     */
+    rowCount: number | null
+}
+
+/**
+ * The payload of the `query:error` event, emitted when a query fails.
+ */
+export interface QueryErrorEvent extends QueryStartEvent {
+    /**
+     * The time until the query failed, in milliseconds.
+     */
+    duration: number
+    error: unknown
+}
+
+export interface QueryEventMap {
+    'query:start': QueryStartEvent
+    'query:end': QueryEndEvent
+    'query:error': QueryErrorEvent
+}
+
+export type QueryEventName = keyof QueryEventMap
+
+export type QueryListener<E extends QueryEventName> = (event: QueryEventMap[E]) => void
+
+/**
+ * How query parameters are passed to the listeners: `true` replaces every value with `[REDACTED]`,
+ * `false` passes them unchanged, and a function maps each value.
+ */
+export type ParamRedaction = boolean | ((value: unknown, index: number) => unknown)
+
+/**
+ * The placeholder of a redacted parameter.
+ */
+const REDACTED = '[REDACTED]'
+
+/**
+ * Holds the listeners of the query lifecycle events of a database, shared by the executors of its transactions.
+ */
+export default class QueryEvents {
+    private listeners: { [E in QueryEventName]: QueryListener<E>[] } = {
+        'query:start': [],
+        'query:end': [],
+        'query:error': []
+    }
+
+    /**
+     * Creates an instance of QueryEvents.
+     * @param redaction - How query parameters are passed to the listeners. Defaults to redacting every value.
+     */
+    constructor(private redaction: ParamRedaction = true) {
+    }
+
+    /**
+     * Registers a listener.
+     * @param event - The event to listen to.
+     * @param listener - The function called with the payload of each event.
+     */
+    on<E extends QueryEventName>(event: E, listener: QueryListener<E>) {
+        this.listeners[event].push(listener)
+    }
+
+    /**
+     * Removes a listener registered with on().
+     * @param event - The event the listener was registered for.
+     * @param listener - The listener to remove.
+     */
+    off<E extends QueryEventName>(event: E, listener: QueryListener<E>) {
+        const listeners = this.listeners[event]
+        const index = listeners.indexOf(listener)
+
+        if (index >= 0) listeners.splice(index, 1)
+    }
+
+    /**
+     * Checks whether any listener is registered, so executors can skip building the payloads.
+     * @returns True if at least one listener is registered.
+     */
+    hasListeners() {
+        return Object.values(this.listeners).some(listeners => listeners.length > 0)
+    }
+
+    /**
+     * Calls the listeners of an event. A listener that throws does not fail the query; its error is reported
+     * as a process warning.
+     * @param event - The event to emit.
+     * @param payload - The payload of the event.
+     */
+    emit<E extends QueryEventName>(event: E, payload: QueryEventMap[E]) {
+        // Copied, so listeners removing themselves do not skip the next one.
+        [...this.listeners[event]].forEach(listener => {
+            try {
+                listener(payload)
+            } catch (error) {
+                process.emitWarning(`A ${event} listener threw: ${error instanceof Error ? error.message : error}`)
+            }
+        })
+    }
+
+    /**
+     * Applies the parameter redaction.
+     * @param params - The parameters of the query.
+     * @returns The parameters to pass to the listeners.
+     */
+    redact(params: readonly unknown[]): unknown[] {
+        if (this.redaction === false) return [...params]
+
+        if (this.redaction === true) return params.map(() => REDACTED)
+
+        const redact = this.redaction
+        return params.map((value, index) => redact(value, index))
+    }
+}
+
+export interface SlowQueryOptions {
+    /**
+     * The duration from which a query is logged, in milliseconds.
+     */
+    threshold: number
+    /**
+     * Logs a slow query. Defaults to `console.warn` with the duration and the SQL text.
+     */
+    log?: (event: QueryEndEvent) => void
+}
+
+/**
+ * Builds a `query:end` listener logging the queries slower than a threshold.
+ * @param options - The threshold and the log function.
+ * @returns The listener, to register with Database.on('query:end', ...).
+ * @throws Error if the threshold is not a non-negative number.
+ */
+export function slowQueryLogger(options: SlowQueryOptions): QueryListener<'query:end'> {
+    if (!(options.threshold >= 0)) {
+        throw new Error(`Slow query threshold expects a non-negative number, got ${options.threshold}`)
+    }
+
+    const log = options.log ?? (event => {
+        console.warn(`Slow query (${event.duration.toFixed(1)} ms): ${event.sql}`)
+    })
+
+    return event => {
+        if (event.duration >= options.threshold) log(event)
+    }
+}
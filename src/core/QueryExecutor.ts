@@ -1,7 +1,53 @@
 import {Pool, PoolClient, QueryResult} from 'pg'
+import {performance} from 'perf_hooks'
+import {CacheStore} from '../cache/CacheStore'
+import QueryEvents from './QueryEvents'
+import {toDatabaseError} from './DatabaseError'
+
+/**
+ * A counter making the names of the cursors opened by this process unique.
+ */
+let cursorCount = 0
 
 interface ExecutorOptions {
+    /**
+     * The connection string of the primary database.
+     */
     connectionString: string
+    /**
+     * The connection strings of the read replicas. Reads are spread across them in turn.
+     */
+    replicas?: string[]
+    /**
+     * How long reads stay on the primary after a write, in milliseconds, so that they see the written rows. Defaults to 0.
+     */
+    stickyPrimary?: number
+    cache?: CacheStore
+    /**
+     * The listeners of the query lifecycle events. Defaults to a new set without listeners.
+     */
+    events?: QueryEvents
+}
+
+/**
+ * Whether a query may run on a replica: `read` queries may, `write` queries always run on the primary.
+ */
+export type QueryAccess = 'read' | 'write'
+
+/**
+ * The replica pools and the index of the replica serving the next read, shared by derived executors.
+ */
+interface ReplicaSet {
+    pools: Pool[]
+    next: number
+}
+
+/**
+ * Reports the outcome of a query to the `query:end` and `query:error` listeners.
+ */
+interface QueryTracker {
+    end(rowCount: number | null): void
+    fail(error: unknown): void
 }
 
 /**
@@ -10,16 +56,36 @@ interface ExecutorOptions {
 export default class QueryExecutor {
     private pool?: Pool
     private client?: PoolClient
+    private cache?: CacheStore
+    /**
+     * The tags invalidated by writes inside a transaction, evicted from the cache once it commits.
+     */
+    private pendingTags?: Set<string>
+    private events: QueryEvents
+    private replicas: ReplicaSet = {pools: [], next: 0}
+    /**
+     * Whether reads are sent to the primary, set by onPrimary().
+     */
+    private pinned = false
+    private stickyPrimary = 0
+    /**
+     * The time until which reads go to the primary after a write, shared by the executors of a session.
+     */
+    private sticky = {until: 0}
 
     /**
      * Creates an instance of QueryExecutor.
-     * @param options - Options for the executor, including the connection string.
+     * @param options - Options for the executor, including the connection strings of the primary and the replicas,
+     * the result cache store and the query event listeners.
      * @param client - An optional PoolClient to use for queries (for transactions).
      */
     constructor(
         options?: ExecutorOptions,
         client?: PoolClient
     ) {
+        this.cache = options?.cache
+        this.events = options?.events ?? new QueryEvents()
+
         if (client) {
             this.client = client
             return
@@ -29,40 +95,280 @@ export default class QueryExecutor {
             this.pool = new Pool({
                 connectionString: options.connectionString
             })
+            this.replicas.pools = (options.replicas ?? []).map(connectionString => new Pool({connectionString}))
+            this.stickyPrimary = options.stickyPrimary ?? 0
             return
         }
 
         throw new Error('Invalid QueryExecutor initialization')
     }
 
+    /**
+     * Creates an executor bound to a transaction client, sharing the cache store and the event listeners of this executor.
+     * Cached reads are bypassed on the returned executor, and its invalidations are collected in `pendingTags`.
+     * @param client - The PoolClient of the transaction.
+     * @param pendingTags - The set collecting the tags invalidated inside the transaction.
+     * @returns A new QueryExecutor instance.
+     */
+    forClient(client: PoolClient, pendingTags: Set<string> = new Set()) {
+        const executor = new QueryExecutor(undefined, client)
+        executor.cache = this.cache
+        executor.events = this.events
+        executor.pendingTags = pendingTags
+        executor.stickyPrimary = this.stickyPrimary
+        executor.sticky = this.sticky
+        return executor
+    }
+
+    /**
+     * Creates an executor sending reads to the primary, sharing the pools, cache and listeners of this executor.
+     * @returns A new QueryExecutor instance.
+     */
+    onPrimary(): QueryExecutor {
+        const executor = this.derive()
+        executor.pinned = true
+        return executor
+    }
+
+    /**
+     * Creates an executor with its own sticky-primary window, sharing the pools, cache and listeners of this executor.
+     * Its reads only stay on the primary after its own writes, e.g. those of one request.
+     * @returns A new QueryExecutor instance.
+     */
+    session(): QueryExecutor {
+        const executor = this.derive()
+        executor.sticky = {until: 0}
+        return executor
+    }
+
+    /**
+     * Copies this executor, without running the constructor, which would open new pools.
+     * @returns A new QueryExecutor instance.
+     */
+    private derive(): QueryExecutor {
+        return Object.assign(Object.create(QueryExecutor.prototype), this)
+    }
+
     /**
      * Executes a SQL query.
+     * When a positive cache TTL is given outside of a transaction, the result is served from and stored in the cache store.
      * @param query - The SQL query string.
      * @param params - An array of parameters for the query.
-     * @param cacheTTL - Time-to-live for caching (not currently used in this implementation).
+     * @param cacheTTL - Time-to-live of the cached result, in milliseconds. The result is not cached when omitted or 0.
+     * @param tags - The tables the query reads from, used to invalidate the cached result.
+     * @param access - Set to `read` to let the query run on a replica. Defaults to `write`, running it on the primary
+     * and keeping the next reads on the primary during the sticky-primary window.
      * @returns A Promise that resolves to the QueryResult.
      */
     async execute(
         query: string,
         params: readonly any[] = [],
-        cacheTTL?: number
+        cacheTTL?: number,
+        tags: string[] = [],
+        access: QueryAccess = 'write'
     ): Promise<QueryResult> {
 
         const normalized = [...params]
 
-        if (this.client) {
-            return this.client.query(query, normalized)
+        if (!this.cache || !cacheTTL || cacheTTL <= 0 || this.client) {
+            return this.run(query, normalized, access)
         }
 
-        if (this.pool) {
-            return this.pool.query(query, normalized)
+        const key = this.cacheKey(query, normalized)
+        const cached = await this.cache.get(key)
+
+        if (cached !== undefined) {
+            return cached
+        }
+
+        const result = await this.run(query, normalized, access)
+        // Stored as a plain object rather than the driver's result, so a store copying its values copies the rows too.
+        const {command, rowCount, oid, fields, rows} = result
+        await this.cache.set(key, {command, rowCount, oid, fields, rows}, cacheTTL, tags)
+
+        return result
+    }
+
+    /**
+     * Sends a SQL query to the client or to a pool, reporting it to the event listeners.
+     * @param query - The SQL query string.
+     * @param params - An array of parameters for the query.
+     * @param access - Whether the query may run on a replica.
+     * @returns A Promise that resolves to the QueryResult.
+     * @throws DatabaseError, or the subclass matching the SQLSTATE code, if the query fails.
+     */
+    private async run(query: string, params: any[], access: QueryAccess): Promise<QueryResult> {
+        if (!this.client && !this.pool) {
+            throw new Error('Executor not initialized')
+        }
+
+        const tracker = this.track(query, params, !!this.client)
+
+        try {
+            const result = this.client
+                ? await this.client.query(query, params)
+                : await this.choosePool(access).query(query, params)
+
+            if (access === 'write' && this.stickyPrimary > 0) {
+                this.sticky.until = Date.now() + this.stickyPrimary
+            }
+
+            tracker?.end(result.rowCount ?? null)
+
+            return result
+        } catch (error) {
+            const wrapped = toDatabaseError(error, query)
+            tracker?.fail(wrapped)
+            throw wrapped
+        }
+    }
+
+    /**
+     * Chooses the pool running a query: the next replica in turn for reads, or the primary for writes,
+     * for reads of an executor pinned with onPrimary(), and for reads during the sticky-primary window.
+     * @param access - Whether the query may run on a replica.
+     * @returns The Pool instance.
+     */
+    private choosePool(access: QueryAccess): Pool {
+        const replicas = this.replicas.pools
+
+        if (access === 'write' || this.pinned || !replicas.length || Date.now() < this.sticky.until) {
+            return this.pool!
         }
 
-        throw new Error('Executor not initialized')
+        return replicas[this.replicas.next++ % replicas.length]
     }
 
     /**
-     * Returns the underlying PostgreSQL Pool instance.
+     * Emits the `query:start` event of a query, and returns the tracker reporting its outcome.
+     * @param query - The SQL query string.
+     * @param params - An array of parameters for the query.
+     * @param inTransaction - Whether the query runs on the client of a transaction.
+     * @returns The tracker, or undefined if no listener is registered.
+     */
+    private track(query: string, params: readonly any[], inTransaction: boolean): QueryTracker | undefined {
+        if (!this.events.hasListeners()) return undefined
+
+        const event = {sql: query, params: this.events.redact(params), inTransaction}
+        this.events.emit('query:start', event)
+
+        const start = performance.now()
+
+        return {
+            end: rowCount => this.events.emit('query:end', {...event, duration: performance.now() - start, rowCount}),
+            fail: error => this.events.emit('query:error', {...event, duration: performance.now() - start, error})
+        }
+    }
+
+    /**
+     * Streams the rows of a SQL query through a server-side cursor, fetching them in batches.
+     * The next batch is only fetched once the consumer has processed the previous one.
+     * Inside a transaction, the cursor is opened on the transaction client; otherwise a dedicated client is taken
+     * from the pool and the cursor runs in its own read-only transaction. The cursor is closed and the client
+     * released when the iteration ends, fails, or the consumer stops early.
+     * Outside a transaction, the cursor runs on a replica like any read.
+     * Results are never cached. The query events cover the whole iteration, and report the number of streamed rows.
+     * @param query - The SQL query string.
+     * @param params - An array of parameters for the query.
+     * @param batchSize - The number of rows fetched at a time.
+     * @returns An async iterator over the rows.
+     * @throws Error if the batch size is not a positive integer.
+     * @throws DatabaseError, or the subclass matching the SQLSTATE code, if the query fails.
+     */
+    async *stream(
+        query: string,
+        params: readonly any[] = [],
+        batchSize = 1000
+    ): AsyncGenerator<any, void, undefined> {
+        if (!Number.isInteger(batchSize) || batchSize <= 0) {
+            throw new Error(`Batch size expects a positive integer, got ${batchSize}`)
+        }
+
+        if (!this.client && !this.pool) {
+            throw new Error('Executor not initialized')
+        }
+
+        const client = this.client ?? await this.choosePool('read').connect().catch(error => {
+            throw toDatabaseError(error, query)
+        })
+        const cursor = `pg_query_sdk_cursor_${++cursorCount}`
+        const owned = !this.client
+        const tracker = this.track(query, params, !owned)
+        let failed = false
+        let rowCount = 0
+
+        try {
+            if (owned) await client.query('BEGIN READ ONLY')
+
+            await client.query(`DECLARE ${cursor} NO SCROLL CURSOR FOR ${query}`, [...params])
+
+            while (true) {
+                const result = await client.query(`FETCH ${batchSize} FROM ${cursor}`)
+
+                rowCount += result.rows.length
+                yield* result.rows
+
+                if (result.rows.length < batchSize) break
+            }
+        } catch (error) {
+            const wrapped = toDatabaseError(error, query)
+            failed = true
+            tracker?.fail(wrapped)
+            throw wrapped
+        } finally {
+            // Also reached when the consumer stops early.
+            if (!failed) tracker?.end(rowCount)
+
+            if (owned) {
+                let endError: Error | undefined
+
+                try {
+                    // Ending the transaction closes the cursor.
+                    await client.query(failed ? 'ROLLBACK' : 'COMMIT')
+                } catch (error) {
+                    endError = error instanceof Error ? error : new Error(String(error))
+                    // The error of the stream is thrown even if the rollback fails too.
+                    if (!failed) throw toDatabaseError(error, 'COMMIT')
+                } finally {
+                    // A connection that failed to end the transaction is destroyed instead of returned to the pool.
+                    client.release(endError)
+                }
+            } else if (!failed) {
+                await client.query(`CLOSE ${cursor}`)
+            }
+        }
+    }
+
+    /**
+     * Computes the cache key of a query from its SQL text and parameters.
+     * @param query - The SQL query string.
+     * @param params - An array of parameters for the query.
+     * @returns The cache key.
+     */
+    private cacheKey(query: string, params: any[]) {
+        return `${query}\u0000${JSON.stringify(params, (_, value) =>
+            typeof value === 'bigint' ? value.toString() : value
+        )}`
+    }
+
+    /**
+     * Evicts the cached results read from the given tables.
+     * Inside a transaction, the tables are recorded and evicted once the transaction commits.
+     * @param tags - The tables that were written to.
+     */
+    async invalidate(tags: string[]) {
+        if (this.pendingTags) {
+            tags.forEach(tag => this.pendingTags!.add(tag))
+            return
+        }
+
+        if (this.cache && tags.length) {
+            await this.cache.invalidateTags(tags)
+        }
+    }
+
+    /**
+     * Returns the underlying PostgreSQL Pool instance of the primary.
      * @returns The Pool instance or undefined if not initialized with a connection string.
      */
     getPool(): Pool | undefined {
@@ -78,11 +384,27 @@ export default class QueryExecutor {
     }
 
     /**
-     * Closes the database connection pool.
+     * Returns the result cache store.
+     * @returns The CacheStore instance or undefined if caching is disabled.
+     */
+    getCache(): CacheStore | undefined {
+        return this.cache
+    }
+
+    /**
+     * Returns the listeners of the query lifecycle events.
+     * @returns The QueryEvents instance.
+     */
+    getEvents(): QueryEvents {
+        return this.events
+    }
+
+    /**
+     * Closes the connection pools of the primary and the replicas.
      */
     async close() {
         if (this.pool) {
-            await this.pool.end()
+            await Promise.all([this.pool, ...this.replicas.pools].map(pool => pool.end()))
         }
     }
-}
\ No newline at end of file
+}
@@ -1,4 +1,65 @@
+import {AsyncLocalStorage} from 'async_hooks'
 import {Pool, PoolClient} from 'pg'
+import {toDatabaseError} from './DatabaseError'
+
+export type IsolationLevel = 'READ COMMITTED' | 'REPEATABLE READ' | 'SERIALIZABLE'
+
+const ISOLATION_LEVELS: IsolationLevel[] = ['READ COMMITTED', 'REPEATABLE READ', 'SERIALIZABLE']
+
+/**
+ * The SQLSTATE codes of the errors that are resolved by running the transaction again:
+ * serialization failure and deadlock detected.
+ */
+const RETRYABLE_CODES = ['40001', '40P01']
+
+/**
+ * The savepoints of each client: the counter numbering their names, and the last savepoint queued within each
+ * enclosing savepoint, or within the transaction itself under the empty name.
+ */
+const savepoints = new WeakMap<PoolClient, { count: number, queues: Map<string, Promise<void>> }>()
+
+/**
+ * The innermost savepoint each client is running the current callback in.
+ */
+const activeSavepoints = new AsyncLocalStorage<ReadonlyMap<PoolClient, string>>()
+
+/**
+ * Configures how a transaction is run again when it fails with a serialization failure or a deadlock.
+ */
+export interface RetryOptions {
+    /**
+     * The maximum number of attempts, including the first one. Defaults to 3.
+     */
+    maxAttempts?: number
+    /**
+     * The delay before the first retry, in milliseconds, doubled on each further retry. Defaults to 50.
+     */
+    baseDelay?: number
+    /**
+     * The upper bound of the delay between attempts, in milliseconds. Defaults to 2000.
+     */
+    maxDelay?: number
+    /**
+     * Called before each retry with the error of the failed attempt, its number and the delay before the next one.
+     */
+    onRetry?: (error: unknown, attempt: number, delay: number) => void | Promise<void>
+}
+
+/**
+ * The options of a transaction.
+ */
+export interface TransactionOptions {
+    isolationLevel?: IsolationLevel
+    readOnly?: boolean
+    /**
+     * Only has an effect on SERIALIZABLE, READ ONLY transactions.
+     */
+    deferrable?: boolean
+    /**
+     * Runs the callback again when the transaction fails with SQLSTATE 40001 or 40P01. Transactions are not retried when omitted.
+     */
+    retry?: RetryOptions
+}
 
 /**
  * Manages database transactions, providing a method to execute a callback within a transaction.
@@ -14,26 +75,198 @@ export default class TransactionManager {
     /**
      * Executes a given callback function within a database transaction.
      * The transaction is committed if the callback succeeds, and rolled back if an error occurs.
+     * With a retry policy, a transaction failing with a serialization failure or a deadlock is rolled back
+     * and the callback is run again on a new transaction, after an exponential backoff.
      * @param callback - The function to execute within the transaction. It receives a PoolClient instance.
+     * @param options - The isolation level, access mode and retry policy of the transaction.
      * @returns A Promise that resolves to the result of the callback function.
+     * @throws Error if the isolation level is invalid, or the error of the last attempt.
      */
     async transaction<T>(
+        callback: (trxClient: PoolClient) => Promise<T>,
+        options: TransactionOptions = {}
+    ): Promise<T> {
+        const begin = TransactionManager.beginStatement(options)
+        const {
+            maxAttempts = options.retry ? 3 : 1,
+            baseDelay = 50,
+            maxDelay = 2000,
+            onRetry
+        } = options.retry ?? {}
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.attempt(begin, callback)
+            } catch (error) {
+                if (attempt >= maxAttempts || !isRetryable(error)) {
+                    throw error
+                }
+
+                const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1))
+                const delay = Math.round(backoff * (0.5 + Math.random() / 2))
+
+                await onRetry?.(error, attempt, delay)
+                await sleep(delay)
+            }
+        }
+    }
+
+    /**
+     * Runs one attempt of a transaction on a new client.
+     * @param begin - The statement starting the transaction.
+     * @param callback - The function to execute within the transaction.
+     * @returns A Promise that resolves to the result of the callback function.
+     * @throws DatabaseError if the connection, BEGIN or COMMIT fails, or the error of the callback.
+     * A failing ROLLBACK never replaces that error; the client is then destroyed instead of returned to the pool.
+     */
+    private async attempt<T>(
+        begin: string,
         callback: (trxClient: PoolClient) => Promise<T>
     ): Promise<T> {
-        const client = await this.pool.connect()
+        const client = await this.pool.connect().catch(error => {
+            throw toDatabaseError(error)
+        })
+        let rollbackError: Error | undefined
 
         try {
-            await client.query('BEGIN')
+            await client.query(begin).catch(error => {
+                throw toDatabaseError(error, begin)
+            })
 
             const result = await callback(client)
 
-            await client.query('COMMIT')
+            // A serializable transaction may fail on COMMIT, with a retryable error.
+            await client.query('COMMIT').catch(error => {
+                throw toDatabaseError(error, 'COMMIT')
+            })
             return result
         } catch (error) {
-            await client.query('ROLLBACK')
+            // The error of the attempt is thrown even if the rollback fails too.
+            await client.query('ROLLBACK').catch(failure => {
+                rollbackError = failure instanceof Error ? failure : new Error(String(failure))
+            })
             throw error
         } finally {
-            client.release()
+            // A connection that failed to roll back is destroyed instead of returned to the pool.
+            client.release(rollbackError)
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Builds the BEGIN statement of a transaction.
+     * @param options - The isolation level and access mode of the transaction.
+     * @returns The SQL text.
+     * @throws Error if the isolation level is invalid.
+     */
+    private static beginStatement(options: TransactionOptions) {
+        const modes: string[] = []
+
+        if (options.isolationLevel) {
+            if (!ISOLATION_LEVELS.includes(options.isolationLevel)) {
+                throw new Error(`Invalid isolation level ${options.isolationLevel}`)
+            }
+
+            modes.push(`ISOLATION LEVEL ${options.isolationLevel}`)
+        }
+
+        if (options.readOnly !== undefined) {
+            modes.push(options.readOnly ? 'READ ONLY' : 'READ WRITE')
+        }
+
+        if (options.deferrable !== undefined) {
+            modes.push(options.deferrable ? 'DEFERRABLE' : 'NOT DEFERRABLE')
+        }
+
+        return ['BEGIN', ...modes].join(' ')
+    }
+
+    /**
+     * Executes a given callback function within a savepoint of a transaction already open on the client.
+     * The savepoint is released if the callback succeeds, and rolled back if an error occurs,
+     * leaving the enclosing transaction usable.
+     * Savepoints started concurrently within the same transaction or savepoint run one after another, since rolling
+     * back to a savepoint also discards the savepoints created after it. A savepoint started from within the callback
+     * of another one is nested in it and runs at once. Each one gets a name unique on the client.
+     * @param client - The PoolClient of the open transaction.
+     * @param name - The prefix of the savepoint name, identifying the nesting level.
+     * @param callback - The function to execute within the savepoint. It receives the same PoolClient instance.
+     * @returns A Promise that resolves to the result of the callback function.
+     */
+    static async savepoint<T>(
+        client: PoolClient,
+        name: string,
+        callback: (trxClient: PoolClient) => Promise<T>
+    ): Promise<T> {
+        const state = savepoints.get(client) ?? {count: 0, queues: new Map<string, Promise<void>>()}
+        const {queues} = state
+
+        savepoints.set(client, state)
+
+        // Queued behind the siblings only, not behind the savepoint this call is made from.
+        const enclosing = activeSavepoints.getStore()
+        const parent = enclosing?.get(client) ?? ''
+        const previous = queues.get(parent) ?? Promise.resolve()
+
+        const result = previous.then(() => {
+            const savepoint = `${name}_${++state.count}`
+            const active = new Map(enclosing).set(client, savepoint)
+
+            return activeSavepoints.run(active, () => runSavepoint(client, savepoint, callback))
+        })
+        const queue = result.then(() => undefined, () => undefined)
+
+        queues.set(parent, queue)
+
+        try {
+            return await result
+        } finally {
+            if (queues.get(parent) === queue) queues.delete(parent)
+        }
+    }
+}
+
+/**
+ * Runs a callback within a savepoint, released if the callback succeeds and rolled back if an error occurs.
+ * @param client - The PoolClient of the open transaction.
+ * @param name - The name of the savepoint.
+ * @param callback - The function to execute within the savepoint.
+ * @returns A Promise that resolves to the result of the callback function.
+ */
+async function runSavepoint<T>(
+    client: PoolClient,
+    name: string,
+    callback: (trxClient: PoolClient) => Promise<T>
+): Promise<T> {
+    await client.query(`SAVEPOINT ${name}`)
+
+    try {
+        const result = await callback(client)
+
+        await client.query(`RELEASE SAVEPOINT ${name}`)
+        return result
+    } catch (error) {
+        // The error of the callback is thrown even if the rollback fails too.
+        await client.query(`ROLLBACK TO SAVEPOINT ${name}`)
+            .then(() => client.query(`RELEASE SAVEPOINT ${name}`))
+            .catch(() => undefined)
+        throw error
+    }
+}
+
+/**
+ * Checks whether an error is resolved by running the transaction again.
+ * @param error - The error of the failed attempt.
+ * @returns True for a serialization failure or a deadlock.
+ */
+function isRetryable(error: unknown) {
+    const code = (error as { code?: unknown } | undefined)?.code
+    return typeof code === 'string' && RETRYABLE_CODES.includes(code)
+}
+
+/**
+ * Waits for the given number of milliseconds.
+ * @param ms - The delay, in milliseconds.
+ */
+function sleep(ms: number) {
+    return new Promise<void>(resolve => setTimeout(resolve, ms))
+}
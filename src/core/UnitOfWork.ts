@@ -1,49 +1,386 @@
-import Repository from "../orm/Repository";
+import Repository, {FindManyOptions, isSameValue, PrimaryKeyValue} from "../orm/Repository";
+import {Where} from "../query/QueryBuilder";
+import Database from "./Database";
+import QueryExecutor from "./QueryExecutor";
+import {Dialect} from "../dialects/Dialect";
+import {TransactionOptions} from "./TransactionManager";
 
 /**
- * Manages a list of new, dirty, and removed entities for transactional operations.
+ * The constructor of a repository, as accepted by Database.repository().
+ */
+export type RepositoryClass<T = any> = new (
+    executor: QueryExecutor,
+    dialect: Dialect
+) => Repository<T>
+
+/**
+ * An entity registered with the unit of work, and the repository it belongs to.
+ */
+interface Registration {
+    repository: RepositoryClass
+    entity: any
+}
+
+/**
+ * Tracks the entities loaded and modified during a business operation, and writes every change
+ * in a single transaction on commit.
+ *
+ * Entities loaded through the unit of work are kept in an identity map, so the same row is always
+ * represented by the same object, and snapshotted, so the columns changed on them are detected and written
+ * without registering them. Inserts and updates run with the repositories a repository depends on first,
+ * and deletes run in the reverse order.
  */
 export default class UnitOfWork {
-    private newEntities: any[] = []
-    private dirtyEntities: any[] = []
-    private removedEntities: any[] = []
+    private newEntities: Registration[] = []
+    private dirtyEntities: Registration[] = []
+    private removedEntities: Registration[] = []
+
+    /**
+     * The managed entities of each repository, by primary key.
+     */
+    private identityMap = new Map<RepositoryClass, Map<string, any>>()
+    /**
+     * The values of each managed entity as last loaded or written.
+     */
+    private snapshots = new Map<any, Record<string, any>>()
+    /**
+     * The repositories each repository depends on.
+     */
+    private dependencies = new Map<RepositoryClass, RepositoryClass[]>()
+    /**
+     * The repositories in the order they were first used.
+     */
+    private repositoryOrder: RepositoryClass[] = []
+    private repositories = new Map<RepositoryClass, Repository<any>>()
+
+    /**
+     * Creates an instance of UnitOfWork.
+     * @param db - The database the entities are loaded from and committed to.
+     */
+    constructor(private db: Database) {
+    }
+
+    /**
+     * Declares that the rows of a repository reference the rows of other repositories,
+     * so they are inserted after them and deleted before them.
+     * @param repository - The dependent repository.
+     * @param dependencies - The repositories it references.
+     * @returns The UnitOfWork instance.
+     */
+    dependsOn(repository: RepositoryClass, ...dependencies: RepositoryClass[]) {
+        this.use(repository)
+        dependencies.forEach(dependency => this.use(dependency))
+
+        this.dependencies.set(repository, [
+            ...(this.dependencies.get(repository) ?? []),
+            ...dependencies
+        ])
+
+        return this
+    }
+
+    /**
+     * Finds an entity by its primary key, returning the managed instance if it was already loaded.
+     * @param repository - The repository of the entity.
+     * @param id - The primary key value, or an object holding every column of a composite key.
+     * @returns A Promise that resolves to the managed entity or null if not found.
+     */
+    async find<T>(repository: RepositoryClass<T>, id: PrimaryKeyValue<T>): Promise<T | null> {
+        const repo = this.repository(repository)
+        const key = this.identityKey(repo, typeof id === 'object' ? id : {[repo.getPrimaryKey()[0]]: id})
+        const managed = this.identityMap.get(repository)?.get(key)
+
+        if (managed) {
+            return managed
+        }
+
+        const entity = await repo.findById(id)
+
+        return entity ? this.attach(repository, entity) : null
+    }
+
+    /**
+     * Finds the entities matching the given conditions. Rows already loaded are returned as their managed instance.
+     * @param repository - The repository of the entities.
+     * @param where - The conditions to match. Defaults to every entity.
+     * @param options - Ordering and paging options.
+     * @returns A Promise that resolves to the managed entities.
+     */
+    async findMany<T>(
+        repository: RepositoryClass<T>,
+        where: Where<T> = {},
+        options: FindManyOptions<T> = {}
+    ): Promise<T[]> {
+        const rows = await this.repository(repository).findMany(where, options)
+
+        return rows.map(row => this.attach(repository, row))
+    }
+
+    /**
+     * Starts tracking an entity loaded outside of the unit of work.
+     * If the row is already managed, the managed instance is returned and the given object is ignored.
+     * @param repository - The repository of the entity.
+     * @param entity - The entity, including its primary key.
+     * @returns The managed entity.
+     */
+    attach<T>(repository: RepositoryClass<T>, entity: T): T {
+        const key = this.identityKey(this.repository(repository), entity)
+        const entities = this.identityMap.get(repository) ?? new Map<string, any>()
+        const managed = entities.get(key)
+
+        if (managed) {
+            return managed
+        }
+
+        entities.set(key, entity)
+        this.identityMap.set(repository, entities)
+        this.snapshots.set(entity, snapshot(entity))
+
+        return entity
+    }
 
     /**
      * Registers an entity as new, to be inserted on commit.
+     * @param repository - The repository of the entity.
      * @param entity - The entity to register.
      */
-    registerNew(entity: any) {
-        this.newEntities.push(entity)
+    registerNew<T>(repository: RepositoryClass<T>, entity: Partial<T>) {
+        this.use(repository)
+        this.newEntities.push({repository, entity})
     }
 
     /**
      * Registers an entity as dirty, to be updated on commit.
-     * @param entity - The entity to register.
+     * Managed entities are updated when they change without being registered; an entity that is not managed
+     * is written with all of its columns.
+     * @param repository - The repository of the entity.
+     * @param entity - The entity to register, including its primary key.
      */
-    registerDirty(entity: any) {
-        this.dirtyEntities.push(entity)
+    registerDirty<T>(repository: RepositoryClass<T>, entity: Partial<T>) {
+        this.use(repository)
+
+        if (!this.dirtyEntities.some(registration => registration.entity === entity)) {
+            this.dirtyEntities.push({repository, entity})
+        }
     }
 
     /**
      * Registers an entity as removed, to be deleted on commit.
-     * @param entity - The entity to register.
+     * Removing an entity registered as new only cancels its insertion.
+     * @param repository - The repository of the entity.
+     * @param entity - The entity to register, including its primary key.
+     */
+    registerRemoved<T>(repository: RepositoryClass<T>, entity: Partial<T>) {
+        this.use(repository)
+
+        const pending = this.newEntities.length
+
+        this.newEntities = this.newEntities.filter(registration => registration.entity !== entity)
+        this.dirtyEntities = this.dirtyEntities.filter(registration => registration.entity !== entity)
+
+        if (this.newEntities.length === pending) {
+            this.removedEntities.push({repository, entity})
+        }
+    }
+
+    /**
+     * Commits all registered and detected changes in a single transaction.
+     * Inserted and updated entities receive the values returned by the database once the transaction commits,
+     * and become managed. The registrations are cleared after a successful commit; after a failure they are kept,
+     * and nothing was written.
+     * @param options - The isolation level, access mode and retry policy of the transaction.
+     * @throws Error if the repository dependencies form a cycle, or if an updated entity no longer exists.
      */
-    registerRemoved(entity: any) {
-        this.removedEntities.push(entity)
+    async commit(options: TransactionOptions = {}) {
+        const order = this.sortRepositories()
+        const removed = new Set(this.removedEntities.map(registration => registration.entity))
+        const updates = this.collectUpdates(removed)
+
+        const written = await this.db.transaction(async trxDb => {
+            const results: [Registration, any][] = []
+
+            for (const repository of order) {
+                const repo = trxDb.repository(repository)
+
+                for (const registration of this.newEntities.filter(r => r.repository === repository)) {
+                    results.push([registration, await repo.insert(registration.entity)])
+                }
+            }
+
+            for (const repository of order) {
+                const repo = trxDb.repository(repository)
+
+                for (const registration of updates.filter(r => r.repository === repository)) {
+                    const row = await repo.update(registration.entity, this.snapshots.get(registration.entity))
+
+                    if (!row) {
+                        throw new Error(
+                            `${repository.name} found no row to update for ${this.identityKey(repo, registration.entity)}`
+                        )
+                    }
+
+                    results.push([registration, row])
+                }
+            }
+
+            for (const repository of [...order].reverse()) {
+                const repo = trxDb.repository(repository)
+
+                for (const registration of this.removedEntities.filter(r => r.repository === repository)) {
+                    await repo.delete(registration.entity)
+                }
+            }
+
+            return results
+        }, options)
+
+        written.forEach(([{repository, entity}, row]) => {
+            Object.assign(entity, row)
+
+            if (this.attach(repository, entity) === entity) {
+                this.snapshots.set(entity, snapshot(entity))
+            }
+        })
+
+        this.removedEntities.forEach(({repository, entity}) => {
+            this.identityMap.get(repository)?.delete(this.identityKey(this.repository(repository), entity))
+            this.snapshots.delete(entity)
+        })
+
+        this.newEntities = []
+        this.dirtyEntities = []
+        this.removedEntities = []
     }
 
     /**
-     * Commits all registered changes (insertions, updates, deletions) using the provided repository.
-     * @param repository - The repository to use for committing changes.
+     * Stops tracking every entity and discards the pending registrations.
      */
-    async commit(repository: Repository<any>) {
-        for (const e of this.newEntities)
-            await repository.insert(e)
+    clear() {
+        this.newEntities = []
+        this.dirtyEntities = []
+        this.removedEntities = []
+        this.identityMap.clear()
+        this.snapshots.clear()
+    }
+
+    /**
+     * Lists the entities to update: the registered ones, and the managed ones that changed since their snapshot.
+     * @param removed - The entities registered as removed, which are not updated.
+     * @returns The registrations to update.
+     */
+    private collectUpdates(removed: Set<any>): Registration[] {
+        const updates = this.dirtyEntities.filter(registration => !removed.has(registration.entity))
+        const registered = new Set(updates.map(registration => registration.entity))
+
+        this.identityMap.forEach((entities, repository) => {
+            entities.forEach(entity => {
+                if (registered.has(entity) || removed.has(entity)) return
+
+                const original = this.snapshots.get(entity)!
 
-        for (const e of this.dirtyEntities)
-            await repository.update(e)
+                const changed = Object.keys(entity).some(column =>
+                    entity[column] !== undefined && !isSameValue(original[column], entity[column])
+                )
 
-        for (const e of this.removedEntities)
-            await repository.delete(e)
+                if (changed) {
+                    updates.push({repository, entity})
+                }
+            })
+        })
+
+        return updates
     }
-}
\ No newline at end of file
+
+    /**
+     * Orders the repositories so that each comes after the repositories it depends on.
+     * Independent repositories keep the order in which they were first used.
+     * @returns The sorted repositories.
+     * @throws Error if the dependencies form a cycle.
+     */
+    private sortRepositories(): RepositoryClass[] {
+        const sorted: RepositoryClass[] = []
+        const visiting = new Set<RepositoryClass>()
+
+        const visit = (repository: RepositoryClass) => {
+            if (sorted.includes(repository)) return
+
+            if (visiting.has(repository)) {
+                throw new Error(`Circular repository dependency involving ${repository.name}`)
+            }
+
+            visiting.add(repository)
+            this.dependencies.get(repository)?.forEach(visit)
+            visiting.delete(repository)
+
+            sorted.push(repository)
+        }
+
+        this.repositoryOrder.forEach(visit)
+
+        return sorted
+    }
+
+    /**
+     * Returns the repository instance used to load entities, creating it on first use.
+     * @param repository - The repository constructor.
+     * @returns The repository instance.
+     */
+    private repository<T>(repository: RepositoryClass<T>): Repository<T> {
+        this.use(repository)
+
+        let repo = this.repositories.get(repository)
+
+        if (!repo) {
+            repo = this.db.repository(repository)
+            this.repositories.set(repository, repo)
+        }
+
+        return repo
+    }
+
+    /**
+     * Records the first use of a repository, which decides its order among independent repositories.
+     * @param repository - The repository constructor.
+     */
+    private use(repository: RepositoryClass) {
+        if (!this.repositoryOrder.includes(repository)) {
+            this.repositoryOrder.push(repository)
+        }
+    }
+
+    /**
+     * Computes the identity map key of an entity from its primary key.
+     * @param repo - The repository of the entity.
+     * @param entity - The entity, or an object holding its primary key columns.
+     * @returns The key.
+     * @throws Error if a primary key column is missing.
+     */
+    private identityKey(repo: Repository<any>, entity: any): string {
+        return JSON.stringify(repo.getPrimaryKey().map(column => {
+            if (entity[column] === undefined || entity[column] === null) {
+                throw new Error(`Missing primary key column ${column}`)
+            }
+
+            return entity[column]
+        }))
+    }
+}
+
+/**
+ * Copies the values of an entity, so later changes to nested objects and dates are detected.
+ * @param entity - The entity to copy.
+ * @returns The copied values.
+ */
+function snapshot(entity: any): Record<string, any> {
+    return Object.fromEntries(Object.entries(entity).map(([column, value]) => {
+        if (value instanceof Date) {
+            return [column, new Date(value.getTime())]
+        }
+
+        if (typeof value === 'object' && value !== null) {
+            return [column, JSON.parse(JSON.stringify(value))]
+        }
+
+        return [column, value]
+    }))
+}
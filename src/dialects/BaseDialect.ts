@@ -0,0 +1,621 @@
+import {CompiledQuery, Dialect, DialectFeatures} from "./Dialect";
+import ParamContext from "../core/ParamContext";
+import {quoteIdentifier} from "../query/Identifier";
+import Raw from "../query/Raw";
+import SqlIdentifier from "../query/Sql";
+import {
+    AssignmentNode,
+    ConditionEntry,
+    ConditionNode,
+    ConflictNode,
+    DeleteNode,
+    FieldNode,
+    FromNode,
+    Identifier,
+    InsertNode,
+    JoinNode,
+    OrderNode,
+    QueryNode,
+    SelectNode,
+    UpdateNode,
+    WindowSpecNode
+} from "../query/QueryNode";
+
+/**
+ * Base class for dialects, compiling query trees into standard SQL.
+ * Concrete dialects provide placeholders, identifier quoting and their feature set,
+ * and override the compile steps where their syntax differs.
+ */
+export default abstract class BaseDialect implements Dialect {
+    abstract readonly name: string
+    abstract readonly features: DialectFeatures
+
+    abstract placeholder(index: number): string
+
+    abstract wrapIdentifier(identifier: string): string
+
+    /**
+     * Compiles a query tree into a SQL statement and its parameters.
+     * Parameters are numbered in the order they appear in the SQL text.
+     * @param node - The query tree to compile.
+     * @returns The compiled SQL statement and its parameters.
+     * @throws Error if the query uses a feature the dialect does not support.
+     */
+    compile(node: QueryNode): CompiledQuery {
+        const ctx = new ParamContext(this)
+        const query = this.compileNode(node, ctx)
+
+        return {
+            query,
+            params: ctx.getParams()
+        }
+    }
+
+    /**
+     * Compiles any statement node.
+     * @param node - The statement node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileNode(node: QueryNode, ctx: ParamContext): string {
+        switch (node.type) {
+            case 'select':
+                return this.compileSelect(node, ctx)
+            case 'insert':
+                return this.compileInsert(node, ctx)
+            case 'update':
+                return this.compileUpdate(node, ctx)
+            case 'delete':
+                return this.compileDelete(node, ctx)
+        }
+    }
+
+    /**
+     * Compiles a SELECT statement.
+     * @param node - The SELECT node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileSelect(node: SelectNode, ctx: ParamContext): string {
+        const parts: string[] = []
+
+        if (node.ctes.length) {
+            const recursive = node.ctes.some(cte => cte.recursive)
+
+            const ctes = node.ctes.map(cte =>
+                `${this.quote(cte.name)} AS (${this.compileSelect(cte.query, ctx)})`
+            )
+
+            parts.push(`WITH ${recursive ? 'RECURSIVE ' : ''}${ctes.join(', ')}`)
+        }
+
+        const core = this.compileSelectCore(node, ctx)
+
+        if (node.setOperations.length) {
+            const operations = node.setOperations.map(operation =>
+                `${operation.operator} (${this.compileSelect(operation.query, ctx)})`
+            )
+
+            parts.push(`(${core})`, ...operations)
+        } else {
+            parts.push(core)
+        }
+
+        if (node.orderBy.length) {
+            parts.push(`ORDER BY ${this.compileOrderBy(node.orderBy, ctx)}`)
+        }
+
+        const limit = this.compileLimit(node.limit, node.offset)
+        if (limit) parts.push(limit)
+
+        return parts.join(' ')
+    }
+
+    /**
+     * Compiles a SELECT statement from its field list to its WINDOW clause.
+     * @param node - The SELECT node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileSelectCore(node: SelectNode, ctx: ParamContext): string {
+        const parts: string[] = []
+
+        const distinct = this.compileDistinct(node, ctx)
+
+        const fields = node.fields.length
+            ? node.fields.map(field => this.compileField(field, ctx)).join(', ')
+            : '*'
+
+        parts.push(`SELECT ${distinct}${fields} FROM ${this.compileFrom(node.from, ctx)}`)
+
+        node.joins.forEach(join => parts.push(this.compileJoin(join, ctx)))
+
+        const where = this.compileConditions(node.where, ctx)
+        if (where) parts.push(`WHERE ${where}`)
+
+        if (node.groupBy.length) {
+            parts.push(`GROUP BY ${node.groupBy.map(field => this.compileIdentifier(field, ctx)).join(', ')}`)
+        }
+
+        const having = this.compileConditions(node.having, ctx)
+        if (having) parts.push(`HAVING ${having}`)
+
+        if (node.windows.length) {
+            const windows = node.windows.map(window =>
+                `${this.quote(window.name)} AS (${this.compileWindowSpec(window.spec, ctx)})`
+            )
+
+            parts.push(`WINDOW ${windows.join(', ')}`)
+        }
+
+        return parts.join(' ')
+    }
+
+    /**
+     * Compiles the DISTINCT or DISTINCT ON modifier of a SELECT.
+     * @param node - The SELECT node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text with a trailing space, or an empty string.
+     */
+    protected compileDistinct(node: SelectNode, ctx: ParamContext): string {
+        if (node.distinctOn.length) {
+            this.assertSupported('distinctOn', 'DISTINCT ON')
+            return `DISTINCT ON (${node.distinctOn.map(field => this.compileIdentifier(field, ctx)).join(', ')}) `
+        }
+
+        return node.distinct ? 'DISTINCT ' : ''
+    }
+
+    /**
+     * Compiles a selected field.
+     * @param field - The field node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileField(field: FieldNode, ctx: ParamContext): string {
+        if (typeof field === 'string' || !('kind' in field)) {
+            return this.compileIdentifier(field, ctx, true)
+        }
+
+        const fn = this.compileRaw(field.fn, ctx)
+
+        const over = typeof field.over === 'string'
+            ? this.quote(field.over)
+            : `(${this.compileWindowSpec(field.over, ctx)})`
+
+        const alias = field.alias ? ` AS ${this.quote(field.alias)}` : ''
+
+        return `${fn} OVER ${over}${alias}`
+    }
+
+    /**
+     * Compiles the definition of a window.
+     * @param spec - The window specification.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text, without parentheses.
+     */
+    protected compileWindowSpec(spec: WindowSpecNode, ctx: ParamContext): string {
+        const parts: string[] = []
+
+        if (spec.base) parts.push(this.quote(spec.base))
+
+        if (spec.partitionBy.length) {
+            parts.push(`PARTITION BY ${spec.partitionBy.map(field => this.compileIdentifier(field, ctx)).join(', ')}`)
+        }
+
+        if (spec.orderBy.length) parts.push(`ORDER BY ${this.compileOrderBy(spec.orderBy, ctx)}`)
+        if (spec.frame) parts.push(spec.frame)
+
+        return parts.join(' ')
+    }
+
+    /**
+     * Compiles the items of an ORDER BY clause.
+     * @param orderBy - The order nodes.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text, without the ORDER BY keywords.
+     */
+    protected compileOrderBy(orderBy: OrderNode[], ctx: ParamContext): string {
+        return orderBy
+            .map(order => `${this.compileIdentifier(order.column, ctx)} ${order.direction}`)
+            .join(', ')
+    }
+
+    /**
+     * Compiles the FROM clause source.
+     * @param from - The FROM node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileFrom(from: FromNode, ctx: ParamContext): string {
+        if (from.kind === 'subquery') {
+            return `(${this.compileSelect(from.query, ctx)}) AS ${this.quote(from.alias)}`
+        }
+
+        return this.compileIdentifier(from.table, ctx, true)
+    }
+
+    /**
+     * Compiles a JOIN clause.
+     * @param join - The JOIN node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileJoin(join: JoinNode, ctx: ParamContext): string {
+        if (join.type === 'FULL') {
+            this.assertSupported('fullJoin', 'FULL OUTER JOIN')
+        }
+
+        const type = join.type === 'FULL' ? 'FULL OUTER' : join.type
+        const source = `${join.lateral ? 'LATERAL ' : ''}${this.compileFrom(join.source, ctx)}`
+
+        if (join.type === 'CROSS') {
+            return `CROSS JOIN ${source}`
+        }
+
+        const on = this.compileConditions(join.on, ctx)
+
+        return `${type} JOIN ${source} ON ${on || 'TRUE'}`
+    }
+
+    /**
+     * Compiles the LIMIT and OFFSET clauses.
+     * @param limit - The maximum number of rows to return.
+     * @param offset - The number of rows to skip.
+     * @returns The SQL text, or an empty string if neither is set.
+     * @throws Error if a value is not a non-negative integer.
+     */
+    protected compileLimit(limit?: number, offset?: number): string {
+        const parts: string[] = []
+
+        if (limit !== undefined) parts.push(`LIMIT ${this.assertCount('LIMIT', limit)}`)
+        if (offset !== undefined) parts.push(`OFFSET ${this.assertCount('OFFSET', offset)}`)
+
+        return parts.join(' ')
+    }
+
+    /**
+     * Compiles a list of conditions joined by AND / OR.
+     * @param entries - The condition entries.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text, or an empty string if there are no conditions.
+     */
+    protected compileConditions(entries: ConditionEntry[], ctx: ParamContext): string {
+        return entries
+            .map((entry, index) => {
+                const expression = this.compileCondition(entry.node, ctx)
+                return index === 0 ? expression : `${entry.type} ${expression}`
+            })
+            .join(' ')
+    }
+
+    /**
+     * Compiles a single condition.
+     * @param node - The condition node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileCondition(node: ConditionNode, ctx: ParamContext): string {
+        switch (node.kind) {
+            case 'null':
+                return `${this.compileIdentifier(node.column, ctx)} IS NULL`
+
+            case 'exists':
+                return `EXISTS (${this.compileSelect(node.query, ctx)})`
+
+            case 'subquery':
+                return `${this.compileIdentifier(node.column, ctx)} ${node.op} (${this.compileSelect(node.query, ctx)})`
+
+            case 'not':
+                return this.compileNot(node.condition, ctx)
+
+            case 'raw':
+                return this.compileRaw(node.sql, ctx)
+
+            case 'group':
+                return `(${this.compileConditions(node.conditions, ctx)})`
+
+            case 'column':
+                return `${this.compileIdentifier(node.left, ctx)} ${node.op} ${this.compileIdentifier(node.right, ctx)}`
+
+            case 'compare':
+                return this.compileComparison(node, ctx)
+
+            case 'path':
+                return this.compilePath(node, ctx)
+        }
+    }
+
+    /**
+     * Compiles a negated condition, as IS NOT NULL, NOT EXISTS or NOT (...).
+     * @param node - The condition to negate.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileNot(node: ConditionNode, ctx: ParamContext): string {
+        switch (node.kind) {
+            case 'null':
+                return `${this.compileIdentifier(node.column, ctx)} IS NOT NULL`
+
+            case 'exists':
+                return `NOT EXISTS (${this.compileSelect(node.query, ctx)})`
+
+            case 'group':
+                return `NOT (${this.compileConditions(node.conditions, ctx)})`
+
+            default:
+                return `NOT (${this.compileCondition(node, ctx)})`
+        }
+    }
+
+    /**
+     * Compiles a comparison of a value extracted from a JSON document, e.g. `"data"->$1::text->>$2::text = $3`.
+     * Path segments are bound as parameters, cast to select the key or index form of the operator.
+     * @param node - The path comparison node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compilePath(node: Extract<ConditionNode, { kind: 'path' }>, ctx: ParamContext): string {
+        this.assertSupported('jsonb', `The ${node.op} operator`)
+
+        const column = this.compileIdentifier(node.column, ctx)
+
+        const segments = node.path.map((segment, index) => {
+            const op = index === node.path.length - 1 ? node.op : '->'
+            const cast = typeof segment === 'number' ? 'int' : 'text'
+
+            return `${op}${ctx.add(segment)}::${cast}`
+        })
+
+        return `${column}${segments.join('')} ${node.compare} ${ctx.add(node.value)}`
+    }
+
+    /**
+     * Compiles a comparison between a column and one or more values.
+     * @param node - The comparison node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileComparison(
+        node: Extract<ConditionNode, { kind: 'compare' }>,
+        ctx: ParamContext
+    ): string {
+        const column = this.compileIdentifier(node.column, ctx)
+
+        switch (node.op) {
+            case 'IN':
+            case 'NOT IN': {
+                // An empty list matches nothing for IN and everything for NOT IN.
+                if (!node.value.length) {
+                    return node.op === 'IN' ? '1 = 0' : '1 = 1'
+                }
+
+                const placeholders = node.value.map((v: any) => ctx.add(v)).join(', ')
+                return `${column} ${node.op} (${placeholders})`
+            }
+
+            case 'BETWEEN':
+                return `${column} BETWEEN ${ctx.add(node.value[0])} AND ${ctx.add(node.value[1])}`
+
+            case 'ILIKE':
+                this.assertSupported('ilike', 'ILIKE')
+                return `${column} ILIKE ${ctx.add(node.value)}`
+
+            case 'ANY':
+                this.assertSupported('arrays', '= ANY')
+                return `${column} = ANY(${ctx.add(node.value)})`
+
+            case '&&':
+                this.assertSupported('arrays', 'The && operator')
+                return `${column} && ${ctx.add(node.value)}`
+
+            case '@>':
+            case '<@':
+            case '?':
+            case '?|':
+            case '?&':
+                this.assertSupported('jsonb', `The ${node.op} operator`)
+                return `${column} ${node.op} ${ctx.add(node.value)}`
+
+            default:
+                return `${column} ${node.op} ${ctx.add(node.value)}`
+        }
+    }
+
+    /**
+     * Compiles an INSERT statement.
+     * @param node - The INSERT node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileInsert(node: InsertNode, ctx: ParamContext): string {
+        let query = `INSERT INTO ${this.quote(node.table, true)}`
+
+        if (!node.columns.length) {
+            query += ` ${this.compileDefaultValues()}`
+        } else {
+            const values = node.rows.map(row => {
+                const placeholders = node.columns.map(column =>
+                    row[column] === undefined ? 'DEFAULT' : ctx.add(row[column])
+                )
+
+                return `(${placeholders.join(', ')})`
+            })
+
+            const columns = node.columns.map(column => this.quote(column))
+
+            query += ` (${columns.join(', ')}) VALUES ${values.join(', ')}`
+        }
+
+        if (node.conflict) {
+            query += ' ' + this.compileConflict(node.conflict, ctx)
+        }
+
+        return query + this.compileReturning(node.returning)
+    }
+
+    /**
+     * Compiles the VALUES of an INSERT without columns.
+     * @returns The SQL text.
+     */
+    protected compileDefaultValues(): string {
+        return 'DEFAULT VALUES'
+    }
+
+    /**
+     * Compiles an ON CONFLICT clause.
+     * @param node - The conflict node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileConflict(node: ConflictNode, ctx: ParamContext): string {
+        this.assertSupported('onConflict', 'ON CONFLICT')
+
+        let clause = 'ON CONFLICT'
+
+        if (Array.isArray(node.target)) {
+            clause += ` (${node.target.map(column => this.quote(column)).join(', ')})`
+        } else if (node.target) {
+            clause += ` ON CONSTRAINT ${this.quote(node.target.constraint)}`
+        }
+
+        if (node.action === 'NOTHING') {
+            return `${clause} DO NOTHING`
+        }
+
+        clause += ` DO UPDATE SET ${this.compileAssignments(node.set, ctx)}`
+
+        const where = this.compileConditions(node.where, ctx)
+        if (where) clause += ` WHERE ${where}`
+
+        return clause
+    }
+
+    /**
+     * Compiles an UPDATE statement.
+     * @param node - The UPDATE node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileUpdate(node: UpdateNode, ctx: ParamContext): string {
+        let query = `UPDATE ${this.quote(node.table, true)} SET ${this.compileAssignments(node.set, ctx)}`
+
+        const where = this.compileConditions(node.where, ctx)
+        if (where) query += ` WHERE ${where}`
+
+        return query + this.compileReturning(node.returning)
+    }
+
+    /**
+     * Compiles a DELETE statement.
+     * @param node - The DELETE node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileDelete(node: DeleteNode, ctx: ParamContext): string {
+        let query = `DELETE FROM ${this.quote(node.table, true)}`
+
+        const where = this.compileConditions(node.where, ctx)
+        if (where) query += ` WHERE ${where}`
+
+        return query + this.compileReturning(node.returning)
+    }
+
+    /**
+     * Compiles the assignments of a SET clause.
+     * @param assignments - The assignment nodes.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileAssignments(assignments: AssignmentNode[], ctx: ParamContext): string {
+        return assignments
+            .map(assignment => {
+                const column = this.quote(assignment.column)
+
+                return 'excluded' in assignment
+                    ? `${column} = EXCLUDED.${this.quote(assignment.excluded)}`
+                    : `${column} = ${ctx.add(assignment.value)}`
+            })
+            .join(', ')
+    }
+
+    /**
+     * Compiles a RETURNING clause.
+     * @param fields - The returned fields.
+     * @returns The SQL text with a leading space, or an empty string if there are no fields.
+     */
+    protected compileReturning(fields: string[]): string {
+        if (!fields.length) return ''
+
+        this.assertSupported('returning', 'RETURNING')
+
+        return ` RETURNING ${fields.map(field => this.quote(field, true)).join(', ')}`
+    }
+
+    /**
+     * Compiles an identifier reference or a Raw fragment, binding the values of the fragment.
+     * @param identifier - The identifier, or a Raw fragment.
+     * @param ctx - The parameter context of the statement.
+     * @param allowAlias - Whether the identifier may end with an `[AS] alias`. Defaults to false.
+     * @returns The SQL text.
+     */
+    protected compileIdentifier(identifier: Identifier, ctx: ParamContext, allowAlias = false): string {
+        return identifier instanceof Raw ? this.compileRaw(identifier, ctx) : this.quote(identifier, allowAlias)
+    }
+
+    /**
+     * Compiles a Raw fragment. Its values are bound as parameters, nested fragments are compiled in place
+     * and SqlIdentifier references are quoted.
+     * @param fragment - The Raw fragment.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileRaw(fragment: Raw, ctx: ParamContext): string {
+        return fragment.strings.reduce((sql, text, index) => {
+            const value = fragment.values[index - 1]
+
+            if (value instanceof Raw) return sql + this.compileRaw(value, ctx) + text
+            if (value instanceof SqlIdentifier) return sql + this.quote(value.name) + text
+
+            return sql + ctx.add(value) + text
+        })
+    }
+
+    /**
+     * Quotes an identifier reference with the dialect.
+     * @param identifier - The identifier, or a Raw fragment.
+     * @param allowAlias - Whether the identifier may end with an `[AS] alias`, as in a select list or a FROM clause.
+     * Defaults to false.
+     * @returns The quoted identifier.
+     */
+    protected quote(identifier: Identifier, allowAlias = false): string {
+        return quoteIdentifier(this, identifier, allowAlias)
+    }
+
+    /**
+     * Ensures the dialect supports a feature.
+     * @param feature - The feature to check.
+     * @param description - The SQL construct, used in the error message.
+     * @throws Error if the feature is not supported.
+     */
+    protected assertSupported(feature: keyof DialectFeatures, description: string) {
+        if (!this.features[feature]) {
+            throw new Error(`${description} is not supported by the ${this.name} dialect`)
+        }
+    }
+
+    /**
+     * Ensures a LIMIT or OFFSET value is a non-negative integer.
+     * @param clause - The clause name, used in the error message.
+     * @param value - The value to check.
+     * @returns The value.
+     * @throws Error if the value is not a non-negative integer.
+     */
+    private assertCount(clause: string, value: number) {
+        if (!Number.isInteger(value) || value < 0) {
+            throw new Error(`${clause} expects a non-negative integer, got ${value}`)
+        }
+
+        return value
+    }
+}
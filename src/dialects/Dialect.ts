@@ -1,7 +1,63 @@
+import {QueryNode} from "../query/QueryNode";
+
+/**
+ * Describes the optional SQL features a dialect supports.
+ * The compiler raises an error when a query uses a feature its dialect does not support.
+ */
+export interface DialectFeatures {
+    /**
+     * Whether INSERT, UPDATE and DELETE accept a RETURNING clause.
+     */
+    returning: boolean
+    /**
+     * Whether the ILIKE operator is available.
+     */
+    ilike: boolean
+    /**
+     * Whether INSERT accepts an ON CONFLICT clause.
+     */
+    onConflict: boolean
+    /**
+     * Whether FULL OUTER JOIN is available.
+     */
+    fullJoin: boolean
+    /**
+     * Whether SELECT DISTINCT ON is available.
+     */
+    distinctOn: boolean
+    /**
+     * Whether the jsonb operators `@>`, `<@`, `?`, `?|`, `?&`, `->` and `->>` are available.
+     */
+    jsonb: boolean
+    /**
+     * Whether array parameters, `= ANY(array)` and the `&&` overlap operator are available.
+     */
+    arrays: boolean
+}
+
+/**
+ * A compiled SQL statement and its parameters.
+ */
+export interface CompiledQuery {
+    query: string
+    params: readonly any[]
+}
+
 /**
- * Defines the interface for a database dialect, providing methods for placeholder generation and identifier wrapping.
+ * Defines the interface for a database dialect, providing methods for placeholder generation, identifier wrapping
+ * and the compilation of query trees into SQL.
  */
 export interface Dialect {
+    /**
+     * The display name of the dialect, used in error messages.
+     */
+    readonly name: string
+
+    /**
+     * The optional SQL features supported by the dialect.
+     */
+    readonly features: DialectFeatures
+
     /**
      * Generates a parameter placeholder for the given index.
      * @param index - The index of the parameter.
@@ -15,4 +71,12 @@ export interface Dialect {
      * @returns The wrapped identifier.
      */
     wrapIdentifier(identifier: string): string
-}
\ No newline at end of file
+
+    /**
+     * Compiles a query tree into a SQL statement and its parameters.
+     * @param node - The query tree to compile.
+     * @returns The compiled SQL statement and its parameters.
+     * @throws Error if the query uses a feature the dialect does not support.
+     */
+    compile(node: QueryNode): CompiledQuery
+}
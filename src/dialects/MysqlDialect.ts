@@ -1,9 +1,30 @@
-import {Dialect} from "./Dialect";
+import BaseDialect from "./BaseDialect";
+import {DialectFeatures} from "./Dialect";
+import ParamContext from "../core/ParamContext";
+import {ConditionNode} from "../query/QueryNode";
+
+/**
+ * The largest row count MySQL accepts, used as the LIMIT of a query that only has an OFFSET.
+ */
+const MAX_ROWS = '18446744073709551615'
 
 /**
  * Implements the Dialect interface for MySQL, providing MySQL-specific placeholder and identifier wrapping.
+ * MySQL has no RETURNING clause, no ILIKE operator and no ON CONFLICT clause.
  */
-export default class MysqlDialect implements Dialect {
+export default class MysqlDialect extends BaseDialect {
+    readonly name = 'MySQL'
+
+    readonly features: DialectFeatures = {
+        returning: false,
+        ilike: false,
+        onConflict: false,
+        fullJoin: false,
+        distinctOn: false,
+        jsonb: false,
+        arrays: false
+    }
+
     /**
      * Returns a MySQL-specific parameter placeholder '?'.
      * @returns The string '?'.
@@ -13,11 +34,53 @@ export default class MysqlDialect implements Dialect {
     }
 
     /**
-     * Wraps a MySQL identifier with backticks.
+     * Wraps a MySQL identifier with backticks, doubling any embedded backtick.
      * @param id - The identifier to wrap.
      * @returns The backtick-wrapped identifier.
      */
     wrapIdentifier(id: string) {
-        return `\`${id}\``
+        return `\`${id.replace(/`/g, '``')}\``
+    }
+
+    /**
+     * Compiles the LIMIT and OFFSET clauses. MySQL only accepts OFFSET after a LIMIT.
+     * @param limit - The maximum number of rows to return.
+     * @param offset - The number of rows to skip.
+     * @returns The SQL text, or an empty string if neither is set.
+     */
+    protected compileLimit(limit?: number, offset?: number): string {
+        const clause = super.compileLimit(limit, offset)
+
+        if (limit === undefined && offset !== undefined) {
+            return `LIMIT ${MAX_ROWS} ${clause}`
+        }
+
+        return clause
+    }
+
+    /**
+     * Compiles a comparison. IS [NOT] DISTINCT FROM is written with the null-safe equality operator `<=>`.
+     * @param node - The comparison node.
+     * @param ctx - The parameter context of the statement.
+     * @returns The SQL text.
+     */
+    protected compileComparison(
+        node: Extract<ConditionNode, { kind: 'compare' }>,
+        ctx: ParamContext
+    ): string {
+        if (node.op === 'IS DISTINCT FROM' || node.op === 'IS NOT DISTINCT FROM') {
+            const equal = `${this.compileIdentifier(node.column, ctx)} <=> ${ctx.add(node.value)}`
+            return node.op === 'IS DISTINCT FROM' ? `NOT (${equal})` : equal
+        }
+
+        return super.compileComparison(node, ctx)
+    }
+
+    /**
+     * Compiles the VALUES of an INSERT without columns.
+     * @returns The SQL text.
+     */
+    protected compileDefaultValues(): string {
+        return '() VALUES ()'
     }
-}
\ No newline at end of file
+}
@@ -1,9 +1,22 @@
-import {Dialect} from "./Dialect";
+import BaseDialect from "./BaseDialect";
+import {DialectFeatures} from "./Dialect";
 
 /**
  * Implements the Dialect interface for PostgreSQL, providing PostgreSQL-specific placeholder and identifier wrapping.
  */
-export default class PostgresDialect implements Dialect {
+export default class PostgresDialect extends BaseDialect {
+    readonly name = 'PostgreSQL'
+
+    readonly features: DialectFeatures = {
+        returning: true,
+        ilike: true,
+        onConflict: true,
+        fullJoin: true,
+        distinctOn: true,
+        jsonb: true,
+        arrays: true
+    }
+
     /**
      * Returns a PostgreSQL-specific parameter placeholder (e.g., '$1', '$2').
      * @param index - The index of the parameter.
@@ -14,11 +27,11 @@ export default class PostgresDialect implements Dialect {
     }
 
     /**
-     * Wraps a PostgreSQL identifier with double quotes.
+     * Wraps a PostgreSQL identifier with double quotes, doubling any embedded double quote.
      * @param id - The identifier to wrap.
      * @returns The double-quoted identifier.
      */
     wrapIdentifier(id: string) {
-        return `"${id}"`
+        return `"${id.replace(/"/g, '""')}"`
     }
-}
\ No newline at end of file
+}
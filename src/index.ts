@@ -3,6 +3,11 @@
  * @module QueryExecutor
  */
 export { default as QueryExecutor } from './core/QueryExecutor';
+/**
+ * Re-exports the query access type from the core module.
+ * @module QueryExecutor
+ */
+export type { QueryAccess } from './core/QueryExecutor';
 /**
  * Re-exports the QueryBuilder class from the builders module.
  * @module QueryBuilder
@@ -23,13 +28,206 @@ export { default as Database } from './core/Database';
  * @module TransactionManager
  */
 export { default as TransactionManager } from './core/TransactionManager';
+/**
+ * Re-exports the transaction option types from the core module.
+ * @module TransactionManager
+ */
+export type { TransactionOptions, RetryOptions, IsolationLevel } from './core/TransactionManager';
+/**
+ * Re-exports the DatabaseError class, its subclasses and the toDatabaseError() helper from the core module.
+ * @module DatabaseError
+ */
+export {
+    default as DatabaseError,
+    UniqueViolationError,
+    ForeignKeyViolationError,
+    NotNullViolationError,
+    CheckViolationError,
+    SerializationFailureError,
+    QueryTimeoutError,
+    ConnectionError,
+    toDatabaseError
+} from './core/DatabaseError';
+/**
+ * Re-exports the QueryEvents class and the slowQueryLogger() helper from the core module.
+ * @module QueryEvents
+ */
+export { default as QueryEvents, slowQueryLogger } from './core/QueryEvents';
+/**
+ * Re-exports the query event types from the core module.
+ * @module QueryEvents
+ */
+export type {
+    QueryStartEvent,
+    QueryEndEvent,
+    QueryErrorEvent,
+    QueryEventMap,
+    QueryEventName,
+    QueryListener,
+    ParamRedaction,
+    SlowQueryOptions
+} from './core/QueryEvents';
+/**
+ * Re-exports the UnitOfWork class from the core module.
+ * @module UnitOfWork
+ */
+export { default as UnitOfWork } from './core/UnitOfWork';
+/**
+ * Re-exports the repository constructor type from the core module.
+ * @module UnitOfWork
+ */
+export type { RepositoryClass } from './core/UnitOfWork';
 /**
  * Re-exports the PostgresDialect class from the dialects module.
  * @module PostgresDialect
  */
 export { default as PostgresDialect } from './dialects/PostgresDialect';
+/**
+ * Re-exports the MysqlDialect class from the dialects module.
+ * @module MysqlDialect
+ */
+export { default as MysqlDialect } from './dialects/MysqlDialect';
+/**
+ * Re-exports the BaseDialect class from the dialects module.
+ * @module BaseDialect
+ */
+export { default as BaseDialect } from './dialects/BaseDialect';
+/**
+ * Re-exports the dialect types from the dialects module.
+ * @module Dialect
+ */
+export type { Dialect, DialectFeatures, CompiledQuery } from './dialects/Dialect';
+/**
+ * Re-exports the query tree types from the query module.
+ * @module QueryNode
+ */
+export type {
+    QueryNode,
+    SelectNode,
+    InsertNode,
+    UpdateNode,
+    DeleteNode,
+    ConditionNode,
+    ConditionEntry,
+    Identifier,
+    Operator,
+    ColumnOperator,
+    PathOperator,
+    JoinNode,
+    JoinType,
+    FieldNode,
+    WindowFieldNode,
+    WindowSpecNode,
+    SetOperator,
+    SetOperationNode
+} from './query/QueryNode';
+/**
+ * Re-exports the pagination result types from the query module.
+ * @module QueryBuilder
+ */
+export type { Paginated, CursorPage } from './query/QueryBuilder';
+/**
+ * Re-exports the column and condition types of typed queries from the query module.
+ * @module QueryBuilder
+ */
+export type { Column, SelectableColumn, Selected, Where, WhereValue, Nullable } from './query/QueryBuilder';
 /**
  * Re-exports the Repository class from the orm module.
  * @module Repository
  */
 export { default as Repository } from './orm/Repository';
+/**
+ * Re-exports the InsertQueryBuilder class from the query module.
+ * @module InsertQueryBuilder
+ */
+export { default as InsertQueryBuilder, excluded, ExcludedColumn } from './query/InsertQueryBuilder';
+/**
+ * Re-exports the UpdateQueryBuilder class from the query module.
+ * @module UpdateQueryBuilder
+ */
+export { default as UpdateQueryBuilder } from './query/UpdateQueryBuilder';
+/**
+ * Re-exports the DeleteQueryBuilder class from the query module.
+ * @module DeleteQueryBuilder
+ */
+export { default as DeleteQueryBuilder } from './query/DeleteQueryBuilder';
+/**
+ * Re-exports the repository option types from the orm module.
+ * @module Repository
+ */
+export type { RepositoryOptions, PrimaryKeyValue, FindManyOptions } from './orm/Repository';
+/**
+ * Re-exports the MemoryCacheStore class from the cache module.
+ * @module MemoryCacheStore
+ */
+export { default as MemoryCacheStore } from './cache/MemoryCacheStore';
+/**
+ * Re-exports the CacheStore interface from the cache module.
+ * @module CacheStore
+ */
+export type { CacheStore } from './cache/CacheStore';
+/**
+ * Re-exports the Raw class and the raw() helper from the query module.
+ * @module Raw
+ */
+export { default as Raw, raw } from './query/Raw';
+/**
+ * Re-exports the SqlIdentifier class and the sql tagged template from the query module.
+ * @module Sql
+ */
+export { default as SqlIdentifier, sql } from './query/Sql';
+/**
+ * Re-exports the Json class and the json() helper from the query module.
+ * @module Json
+ */
+export { default as Json, json } from './query/Json';
+/**
+ * Re-exports the WindowExpression and WindowSpec classes and the over() helper from the query module.
+ * @module Window
+ */
+export { default as WindowExpression, WindowSpec, over } from './query/Window';
+
+/**
+ * Re-exports the Introspector class from the schema module.
+ * @module Introspector
+ */
+export { default as Introspector } from './schema/Introspector';
+/**
+ * Re-exports the schema description types from the schema module.
+ * @module Introspector
+ */
+export type {
+    SchemaInfo,
+    TableInfo,
+    ColumnInfo,
+    EnumInfo,
+    ForeignKeyInfo,
+    ForeignKeyAction
+} from './schema/Introspector';
+/**
+ * Re-exports the TypeGenerator class from the schema module.
+ * @module TypeGenerator
+ */
+export { default as TypeGenerator } from './schema/TypeGenerator';
+/**
+ * Re-exports the TypeGenerator options from the schema module.
+ * @module TypeGenerator
+ */
+export type { TypeGeneratorOptions } from './schema/TypeGenerator';
+/**
+ * Re-exports the Migrator class from the migrations module.
+ * @module Migrator
+ */
+export { default as Migrator } from './migrations/Migrator';
+/**
+ * Re-exports the migration types from the migrations module.
+ * @module Migrator
+ */
+export type {
+    Migration,
+    MigrationModule,
+    MigrationStatus,
+    MigratorOptions,
+    MigrateOptions,
+    RollbackOptions
+} from './migrations/Migrator';
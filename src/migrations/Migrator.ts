@@ -0,0 +1,463 @@
+import {createHash} from 'crypto'
+import {readdir, readFile} from 'fs/promises'
+import {extname, join, resolve} from 'path'
+import {pathToFileURL} from 'url'
+import {PoolClient} from 'pg'
+import Database from '../core/Database'
+import PostgresDialect from '../dialects/PostgresDialect'
+import {quoteIdentifier} from '../query/Identifier'
+
+/**
+ * A migration written as a TypeScript or JavaScript module.
+ */
+export interface MigrationModule {
+    /**
+     * Applies the migration. Receives a Database bound to the transaction of the migration.
+     */
+    up(db: Database<any>): Promise<void>
+    /**
+     * Reverts the migration. Migrations without `down` cannot be rolled back.
+     */
+    down?(db: Database<any>): Promise<void>
+}
+
+/**
+ * A migration loaded from the migrations directory.
+ */
+export interface Migration extends MigrationModule {
+    /**
+     * The file name without its extension. Migrations run in the order of their names.
+     */
+    name: string
+    /**
+     * The SHA-256 checksum of the file content.
+     */
+    checksum: string
+}
+
+export interface MigrationStatus {
+    name: string
+    /**
+     * Whether the migration has been applied.
+     */
+    applied: boolean
+    /**
+     * The batch the migration was applied in, if applied.
+     */
+    batch?: number
+    executedAt?: Date
+    /**
+     * Whether the migration file changed since it was applied.
+     */
+    modified: boolean
+    /**
+     * Whether the migration was applied but its file no longer exists.
+     */
+    missing: boolean
+}
+
+export interface MigratorOptions {
+    /**
+     * The directory holding the migration files: `.sql` files, or modules exporting `up` and `down`.
+     */
+    directory: string
+    /**
+     * The table recording the applied migrations, created when missing. Defaults to `migrations`.
+     */
+    tableName?: string
+    /**
+     * The key of the advisory lock held while migrating. Defaults to a hash of the table name.
+     */
+    lockKey?: number
+}
+
+export interface MigrateOptions {
+    /**
+     * Returns the migrations that would run, without running them or taking the lock.
+     */
+    dryRun?: boolean
+}
+
+export interface RollbackOptions extends MigrateOptions {
+    /**
+     * The number of migrations to revert. Defaults to every migration of the last batch.
+     */
+    steps?: number
+}
+
+interface AppliedMigration {
+    name: string
+    checksum: string
+    batch: number
+    executed_at: Date
+}
+
+const EXTENSIONS = ['.sql', '.js', '.ts']
+
+/**
+ * The markers separating the up and down sections of a SQL migration.
+ */
+const UP_MARKER = /^--\s*migrate:up\s*$/im
+const DOWN_MARKER = /^--\s*migrate:down\s*$/im
+
+/**
+ * Applies and reverts migrations, recording them in a migrations table.
+ * Each migration runs in its own transaction, and a PostgreSQL advisory lock makes concurrent runners wait for each other.
+ * Everything done under the lock runs on the single connection holding it.
+ */
+export default class Migrator {
+    private directory: string
+    private tableName: string
+    private lockKey?: number
+    /**
+     * The error of each locked connection that failed to roll back, which is destroyed instead of reused.
+     */
+    private brokenClients = new WeakMap<PoolClient, Error>()
+
+    /**
+     * Creates an instance of Migrator.
+     * @param db - The database to migrate. It must be connected to a pool, not bound to a transaction.
+     * @param options - The migrations directory, the migrations table and the advisory lock key.
+     */
+    constructor(
+        private db: Database<any>,
+        options: MigratorOptions
+    ) {
+        this.directory = resolve(options.directory)
+        this.tableName = options.tableName ?? 'migrations'
+        this.lockKey = options.lockKey
+    }
+
+    /**
+     * Applies every pending migration, in the order of their names. The migrations applied by one call form a batch.
+     * @param options - Set `dryRun` to only list the pending migrations.
+     * @returns A Promise that resolves to the names of the applied (or pending, in dry-run mode) migrations.
+     * @throws Error if an applied migration file was modified, or the error of the failing migration.
+     * The migrations applied before it stay applied.
+     */
+    async latest(options: MigrateOptions = {}): Promise<string[]> {
+        if (options.dryRun) {
+            const [migrations, applied] = await Promise.all([this.load(), this.readApplied()])
+            return this.pending(migrations, applied).map(migration => migration.name)
+        }
+
+        return this.withLock(async client => {
+            const [migrations, applied] = await Promise.all([this.load(), this.readApplied(this.bind(client))])
+            const pending = this.pending(migrations, applied)
+            const batch = Math.max(0, ...applied.map(row => row.batch)) + 1
+
+            for (const migration of pending) {
+                await this.transaction(client, async trxDb => {
+                    await migration.up(trxDb)
+
+                    await trxDb.table(this.tableName)
+                        .insert({name: migration.name, checksum: migration.checksum, batch})
+                        .execute()
+                })
+            }
+
+            return pending.map(migration => migration.name)
+        })
+    }
+
+    /**
+     * Reverts the migrations of the last batch, or the given number of migrations, in reverse order.
+     * @param options - The number of migrations to revert; set `dryRun` to only list them.
+     * @returns A Promise that resolves to the names of the reverted (or to revert, in dry-run mode) migrations.
+     * @throws Error if a migration file is missing or has no `down`, or the error of the failing migration.
+     */
+    async rollback(options: RollbackOptions = {}): Promise<string[]> {
+        if (options.dryRun) {
+            const applied = await this.readApplied()
+            return this.toRevert(applied, options.steps).map(row => row.name)
+        }
+
+        return this.withLock(async client => {
+            const [migrations, applied] = await Promise.all([this.load(), this.readApplied(this.bind(client))])
+            const byName = new Map(migrations.map(migration => [migration.name, migration]))
+            const reverted = this.toRevert(applied, options.steps)
+
+            reverted.forEach(row => {
+                const migration = byName.get(row.name)
+
+                if (!migration) {
+                    throw new Error(`Migration ${row.name} is applied but its file is missing`)
+                }
+
+                if (!migration.down) {
+                    throw new Error(`Migration ${row.name} has no down migration`)
+                }
+            })
+
+            for (const row of reverted) {
+                await this.transaction(client, async trxDb => {
+                    await byName.get(row.name)!.down!(trxDb)
+
+                    await trxDb.table(this.tableName)
+                        .where({name: row.name})
+                        .delete()
+                        .execute()
+                })
+            }
+
+            return reverted.map(row => row.name)
+        })
+    }
+
+    /**
+     * Lists the migration files and the applied migrations, in the order of their names.
+     * @returns A Promise that resolves to the status of each migration.
+     */
+    async status(): Promise<MigrationStatus[]> {
+        const [migrations, applied] = await Promise.all([this.load(), this.readApplied()])
+        const appliedByName = new Map(applied.map(row => [row.name, row]))
+        const names = new Set([...migrations.map(m => m.name), ...applied.map(row => row.name)])
+        const byName = new Map(migrations.map(migration => [migration.name, migration]))
+
+        return [...names].sort().map(name => {
+            const migration = byName.get(name)
+            const row = appliedByName.get(name)
+
+            return {
+                name,
+                applied: !!row,
+                batch: row?.batch,
+                executedAt: row?.executed_at,
+                modified: !!row && !!migration && row.checksum !== migration.checksum,
+                missing: !!row && !migration
+            }
+        })
+    }
+
+    /**
+     * Loads the migration files of the directory, in the order of their names.
+     * @returns A Promise that resolves to the migrations.
+     * @throws Error if a module does not export an `up` function, or two files share a name.
+     */
+    async load(): Promise<Migration[]> {
+        const files = (await readdir(this.directory))
+            .filter(file => EXTENSIONS.includes(extname(file)) && !file.endsWith('.d.ts'))
+            .sort()
+
+        const migrations = await Promise.all(files.map(file => this.loadFile(file)))
+
+        migrations.forEach((migration, index) => {
+            if (index > 0 && migrations[index - 1].name === migration.name) {
+                throw new Error(`Duplicate migration ${migration.name}`)
+            }
+        })
+
+        return migrations
+    }
+
+    /**
+     * Loads a migration file.
+     * @param file - The file name.
+     * @returns A Promise that resolves to the migration.
+     * @throws Error if a module does not export an `up` function.
+     */
+    private async loadFile(file: string): Promise<Migration> {
+        const path = join(this.directory, file)
+        const content = await readFile(path, 'utf8')
+        const name = file.slice(0, -extname(file).length)
+        const checksum = createHash('sha256').update(content).digest('hex')
+
+        if (extname(file) === '.sql') {
+            return {name, checksum, ...parseSql(content)}
+        }
+
+        // The CommonJS build compiles import() to require(), which does not accept file URLs.
+        const loaded = typeof require === 'function'
+            ? require(path)
+            : await import(pathToFileURL(path).href)
+        const up = loaded.up ?? loaded.default?.up
+        const down = loaded.down ?? loaded.default?.down
+
+        if (typeof up !== 'function') {
+            throw new Error(`Migration ${file} does not export an up function`)
+        }
+
+        return {name, checksum, up, down}
+    }
+
+    /**
+     * Lists the migrations that are not applied yet.
+     * @param migrations - The migration files.
+     * @param applied - The applied migrations.
+     * @returns The pending migrations.
+     * @throws Error if an applied migration file was modified.
+     */
+    private pending(migrations: Migration[], applied: AppliedMigration[]): Migration[] {
+        const appliedByName = new Map(applied.map(row => [row.name, row]))
+
+        return migrations.filter(migration => {
+            const row = appliedByName.get(migration.name)
+
+            if (row && row.checksum !== migration.checksum) {
+                throw new Error(`Migration ${migration.name} was modified after it was applied`)
+            }
+
+            return !row
+        })
+    }
+
+    /**
+     * Lists the applied migrations to revert, most recent first.
+     * @param applied - The applied migrations.
+     * @param steps - The number of migrations to revert. Defaults to every migration of the last batch.
+     * @returns The migrations to revert.
+     */
+    private toRevert(applied: AppliedMigration[], steps?: number): AppliedMigration[] {
+        const recent = [...applied].sort((a, b) =>
+            b.batch - a.batch || b.name.localeCompare(a.name)
+        )
+
+        if (steps !== undefined) {
+            return recent.slice(0, steps)
+        }
+
+        return recent.filter(row => row.batch === recent[0].batch)
+    }
+
+    /**
+     * Reads the applied migrations. Returns an empty list when the migrations table does not exist yet.
+     * @param db - The database to read from. Defaults to the migrated database; under the lock, the locked connection.
+     * @returns A Promise that resolves to the applied migrations.
+     */
+    private async readApplied(db: Database<any> = this.db): Promise<AppliedMigration[]> {
+        const executor = db.getExecutor()
+
+        const result = await executor.execute('SELECT to_regclass($1) IS NOT NULL AS exists', [this.table()])
+
+        if (!result.rows[0].exists) {
+            return []
+        }
+
+        return db.table<AppliedMigration>(this.tableName)
+            .noCache()
+            .onPrimary()
+            .orderBy('name')
+            .execute()
+    }
+
+    /**
+     * Creates a Database running its queries on a connection, outside of any transaction.
+     * @param client - The connection.
+     * @param pendingTags - The set collecting the cache tags invalidated by its writes.
+     * @returns A Database instance.
+     */
+    private bind(client: PoolClient, pendingTags?: Set<string>): Database<any> {
+        const executor = this.db.getExecutor().forClient(client, pendingTags)
+        return new Database<any>({dialect: this.db.getDialect()}, executor)
+    }
+
+    /**
+     * Runs a callback in a transaction on the locked connection, instead of taking a second connection from the pool.
+     * The tables written to are evicted from the cache once the transaction commits.
+     * @param client - The connection holding the lock.
+     * @param callback - The function to run. It receives a Database bound to the transaction.
+     */
+    private async transaction(client: PoolClient, callback: (trxDb: Database<any>) => Promise<void>) {
+        const invalidated = new Set<string>()
+
+        await client.query('BEGIN')
+
+        try {
+            await callback(this.bind(client, invalidated))
+            await client.query('COMMIT')
+        } catch (error) {
+            // The error of the migration is thrown even if the rollback fails too.
+            await client.query('ROLLBACK').catch(failure => {
+                this.brokenClients.set(client, failure instanceof Error ? failure : new Error(String(failure)))
+            })
+            throw error
+        }
+
+        await this.db.getExecutor().invalidate([...invalidated])
+    }
+
+    /**
+     * Runs a callback while holding the advisory lock of the migrations table, on a dedicated connection.
+     * Creates the migrations table if it does not exist.
+     * @param callback - The function to run. It receives the connection holding the lock, to run every query on.
+     * @returns A Promise that resolves to the result of the callback.
+     * @throws Error if the database is not connected to a pool.
+     */
+    private async withLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+        const pool = this.db.getExecutor().getPool()
+
+        if (!pool) {
+            throw new Error('The Migrator requires a Database connected to a pool, not a transaction')
+        }
+
+        const client = await pool.connect()
+        const lock: { key: string, params: any[] } = this.lockKey === undefined
+            ? {key: 'hashtext($1)', params: [this.table()]}
+            : {key: '$1', params: [this.lockKey]}
+
+        let failure: Error | undefined
+
+        try {
+            await client.query(`SELECT pg_advisory_lock(${lock.key})`, lock.params)
+
+            try {
+                await client.query(
+                    `CREATE TABLE IF NOT EXISTS ${this.table()} (
+                        name text PRIMARY KEY,
+                        checksum text NOT NULL,
+                        batch integer NOT NULL,
+                        executed_at timestamptz NOT NULL DEFAULT now()
+                    )`
+                )
+
+                return await callback(client)
+            } finally {
+                failure = this.brokenClients.get(client)
+
+                // Destroying the connection below also releases its lock.
+                if (!failure) await client.query(`SELECT pg_advisory_unlock(${lock.key})`, lock.params)
+            }
+        } finally {
+            // A connection that failed to roll back is destroyed instead of returned to the pool.
+            client.release(failure)
+        }
+    }
+
+    /**
+     * Returns the quoted name of the migrations table.
+     * @returns The quoted table name.
+     */
+    private table() {
+        return quoteIdentifier(new PostgresDialect(), this.tableName)
+    }
+}
+
+/**
+ * Splits a SQL migration into its up and down sections.
+ * Without markers, the whole file is the up migration.
+ * @param content - The content of the SQL file.
+ * @returns The up and down functions of the migration.
+ */
+function parseSql(content: string): MigrationModule {
+    const upMatch = UP_MARKER.exec(content)
+    const downMatch = DOWN_MARKER.exec(content)
+
+    const upStart = upMatch ? upMatch.index + upMatch[0].length : 0
+    const upEnd = downMatch && downMatch.index > upStart ? downMatch.index : content.length
+
+    const upSql = content.slice(upStart, upEnd).trim()
+    const downSql = downMatch
+        ? content.slice(downMatch.index + downMatch[0].length, upMatch && upMatch.index > downMatch.index ? upMatch.index : content.length).trim()
+        : undefined
+
+    return {
+        up: async db => {
+            if (upSql) await db.getExecutor().execute(upSql)
+        },
+        down: downSql === undefined
+            ? undefined
+            : async db => {
+                if (downSql) await db.getExecutor().execute(downSql)
+            }
+    }
+}
@@ -1,22 +1,67 @@
-import {QueryBuilder, QueryExecutor} from "../index";
+import QueryBuilder, {Where} from "../query/QueryBuilder";
+import QueryExecutor from "../core/QueryExecutor";
 import {Dialect} from "../dialects/Dialect";
 
+/**
+ * Options describing how a repository maps its entity to the table.
+ * @template T The type of the entity managed by the repository.
+ */
+export interface RepositoryOptions<T> {
+    /**
+     * The primary key column, or the columns of a composite key. Defaults to 'id'.
+     */
+    primaryKey?: (keyof T & string) | (keyof T & string)[]
+    /**
+     * A timestamp column marking deleted rows. When set, delete() fills it instead of removing the row
+     * and the find methods ignore the rows where it is not null.
+     */
+    softDeleteColumn?: keyof T & string
+}
+
+/**
+ * The value of a primary key: a scalar for a single-column key, or an object holding every column of a composite key.
+ */
+export type PrimaryKeyValue<T> = string | number | Partial<T>
+
+/**
+ * Options for listing entities.
+ */
+export interface FindManyOptions<T> {
+    orderBy?: { column: keyof T & string, direction?: 'ASC' | 'DESC' }[]
+    limit?: number
+    offset?: number
+}
+
 /**
  * Abstract base class for repositories, providing common database operations.
  * @template T The type of the entity managed by the repository.
  */
 export default abstract class Repository<T> {
+    /**
+     * The primary key column(s) of the table.
+     */
+    protected primaryKey: string[]
+    /**
+     * The soft-delete column of the table, if any.
+     */
+    protected softDeleteColumn?: string
+
     /**
      * Creates an instance of Repository.
      * @param table - The name of the database table associated with this repository.
      * @param executor - The QueryExecutor instance for executing queries.
      * @param dialect - The Dialect instance for database-specific syntax.
+     * @param options - The primary key and soft-delete configuration.
      */
     constructor(
         protected table: string,
         protected executor: QueryExecutor,
-        protected dialect: Dialect
+        protected dialect: Dialect,
+        options: RepositoryOptions<T> = {}
     ) {
+        const primaryKey = options.primaryKey ?? 'id'
+        this.primaryKey = Array.isArray(primaryKey) ? primaryKey : [primaryKey]
+        this.softDeleteColumn = options.softDeleteColumn
     }
 
     /**
@@ -32,43 +77,203 @@ export default abstract class Repository<T> {
     }
 
     /**
-     * Finds an entity by its ID.
-     * @param id - The ID of the entity to find.
+     * Returns the primary key column(s) of the table.
+     * @returns The primary key columns.
+     */
+    getPrimaryKey(): string[] {
+        return [...this.primaryKey]
+    }
+
+    /**
+     * Returns a QueryBuilder that ignores soft-deleted rows.
+     * @returns A QueryBuilder instance.
+     */
+    protected scoped() {
+        const qb = this.qb()
+
+        if (this.softDeleteColumn) {
+            qb.where({[this.softDeleteColumn]: null} as Where<T>)
+        }
+
+        return qb
+    }
+
+    /**
+     * Builds the WHERE object matching the primary key.
+     * @param id - A primary key value, or an entity holding the primary key column(s).
+     * @returns An object mapping each primary key column to its value.
+     * @throws Error if a primary key column is missing.
+     */
+    protected keyOf(id: PrimaryKeyValue<T>): Record<string, any> {
+        const isObject = typeof id === 'object' && id !== null
+
+        if (!isObject) {
+            if (this.primaryKey.length > 1) {
+                throw new Error(
+                    `Composite primary key (${this.primaryKey.join(', ')}) expects an object`
+                )
+            }
+
+            return {[this.primaryKey[0]]: id}
+        }
+
+        const record = id as Record<string, any>
+
+        return Object.fromEntries(this.primaryKey.map(column => {
+            if (record[column] === undefined || record[column] === null) {
+                throw new Error(`Missing primary key column ${column}`)
+            }
+
+            return [column, record[column]]
+        }))
+    }
+
+    /**
+     * Finds an entity by its primary key.
+     * @param id - The primary key value, or an object holding every column of a composite key.
      * @returns A Promise that resolves to the found entity or null if not found.
      */
-    async findById(id: number): Promise<T | null> {
-        const rows = await this.qb()
-            .where({id})
-            .limit(1)
-            .execute()
+    async findById(id: PrimaryKeyValue<T>): Promise<T | null> {
+        return this.findOne(this.keyOf(id) as Where<T>)
+    }
 
-        return rows[0] ?? null
+    /**
+     * Finds the entities matching the given conditions.
+     * @param where - The conditions to match. Defaults to every entity.
+     * @param options - Ordering and paging options.
+     * @returns A Promise that resolves to the matching entities.
+     */
+    async findMany(
+        where: Where<T> = {},
+        options: FindManyOptions<T> = {}
+    ): Promise<T[]> {
+        const qb = this.scoped().where(where)
+
+        options.orderBy?.forEach(({column, direction}) => qb.orderBy(column, direction))
+
+        if (options.limit !== undefined) qb.limit(options.limit)
+        if (options.offset !== undefined) qb.offset(options.offset)
+
+        return qb.execute()
+    }
+
+    /**
+     * Finds the first entity matching the given conditions.
+     * @param where - The conditions to match.
+     * @returns A Promise that resolves to the found entity or null if not found.
+     */
+    async findOne(where: Where<T>): Promise<T | null> {
+        return this.scoped().where(where).first()
+    }
+
+    /**
+     * Counts the entities matching the given conditions.
+     * @param where - The conditions to match. Defaults to every entity.
+     * @returns A Promise that resolves to the number of matching entities.
+     */
+    async count(where: Where<T> = {}): Promise<number> {
+        return this.scoped().where(where).count()
+    }
+
+    /**
+     * Checks whether at least one entity matches the given conditions.
+     * @param where - The conditions to match. Defaults to every entity.
+     * @returns A Promise that resolves to true if a matching entity exists.
+     */
+    async exists(where: Where<T> = {}): Promise<boolean> {
+        return this.scoped().where(where).exists()
     }
 
     /**
      * Inserts a new entity into the database.
-     * This method should be implemented by concrete repository classes.
      * @param data - The partial entity data to insert.
+     * @returns A Promise that resolves to the inserted entity, as returned by the database.
      */
-    async insert(data: Partial<T>) {
-        // implementação insert segura
+    async insert(data: Partial<T>): Promise<T> {
+        const rows = await this.qb()
+            .insert(data)
+            .returning('*')
+            .execute()
+
+        return rows[0]
     }
 
     /**
-     * Updates an existing entity in the database.
-     * This method should be implemented by concrete repository classes.
-     * @param data - The partial entity data to update.
+     * Updates an existing entity, identified by the primary key columns in the data. Soft-deleted entities are not updated.
+     * Only the columns that differ from the original are written when an original is supplied.
+     * @param data - The entity data, including the primary key.
+     * @param original - An optional snapshot of the entity as loaded, used to skip unchanged columns.
+     * @returns A Promise that resolves to the updated entity, or null if no row matched or the entity is soft-deleted.
      */
-    async update(data: Partial<T>) {
-        // implementação update segura
+    async update(data: Partial<T>, original?: Partial<T>): Promise<T | null> {
+        const key = this.keyOf(data)
+        const record = data as Record<string, any>
+        const snapshot = original as Record<string, any> | undefined
+
+        const changes = Object.fromEntries(
+            Object.entries(record).filter(([column, value]) =>
+                value !== undefined
+                && !this.primaryKey.includes(column)
+                && (!snapshot || !isSameValue(snapshot[column], value))
+            )
+        )
+
+        if (!Object.keys(changes).length) {
+            // Read on the primary, as a replica may not have caught up with an earlier write of the entity.
+            return this.scoped().where(key as Where<T>).onPrimary().first()
+        }
+
+        const rows = await this.scoped()
+            .where(key as Where<T>)
+            .update(changes as Partial<T>)
+            .returning('*')
+            .execute()
+
+        return rows[0] ?? null
     }
 
     /**
-     * Deletes an entity from the database.
-     * This method should be implemented by concrete repository classes.
-     * @param data - The partial entity data to delete (e.g., containing the ID).
+     * Deletes an entity from the database, or marks it as deleted when a soft-delete column is configured.
+     * @param id - The primary key value, or an entity holding the primary key column(s).
+     * @returns A Promise that resolves to true if a row was deleted.
      */
-    async delete(data: Partial<T>) {
-        // soft delete opcional
+    async delete(id: PrimaryKeyValue<T>): Promise<boolean> {
+        const key = this.keyOf(id)
+
+        if (this.softDeleteColumn) {
+            const rows = await this.scoped()
+                .where(key as Where<T>)
+                .update({[this.softDeleteColumn]: new Date()} as Partial<T>)
+                .returning(this.primaryKey as (keyof T)[])
+                .execute()
+
+            return rows.length > 0
+        }
+
+        const rows = await this.qb()
+            .where(key as Where<T>)
+            .delete()
+            .returning(this.primaryKey as (keyof T)[])
+            .execute()
+
+        return rows.length > 0
+    }
+}
+
+/**
+ * Compares two column values, treating dates by their time and other objects by their JSON representation.
+ * @param a - The first value.
+ * @param b - The second value.
+ * @returns True if both values are considered equal.
+ */
+export function isSameValue(a: any, b: any): boolean {
+    if (a instanceof Date && b instanceof Date) {
+        return a.getTime() === b.getTime()
     }
-}
\ No newline at end of file
+
+    if (typeof a === 'object' && a !== null && typeof b === 'object' && b !== null) {
+        return JSON.stringify(a) === JSON.stringify(b)
+    }
+
+    return a === b
+}
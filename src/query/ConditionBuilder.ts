@@ -1,55 +1,59 @@
-import ParamContext from '../core/ParamContext'
-import QueryBuilder from "../builders/QueryBuilder"
-
-type Operator =
-    | '='
-    | '>'
-    | '<'
-    | '>='
-    | '<='
-    | '!='
-    | '<>'
-    | 'LIKE'
-    | 'ILIKE'
-    | 'IN'
-    | 'NOT IN'
-    | 'BETWEEN'
-    | 'EXISTS'
-
-type ConditionValue =
-    | any
-    | {
+import Raw from './Raw'
+import Json from './Json'
+import {ColumnOperator, ConditionEntry, ConditionNode, Operator, SelectNode} from './QueryNode'
+
+/**
+ * An operator object of a WHERE condition.
+ */
+interface OperatorCondition {
     op: Operator
     value: any
+    /**
+     * The keys and array indexes leading to the compared value, for the `->` and `->>` operators.
+     */
+    path?: string | number | (string | number)[]
+    /**
+     * The comparison applied to the extracted value, for the `->` and `->>` operators. Defaults to `=`.
+     */
+    compare?: ColumnOperator
 }
 
-type ConditionNode = {
-    type: 'AND' | 'OR'
-    expression: string
+type ConditionValue = any | OperatorCondition
+
+/**
+ * A query usable as a subquery, such as a QueryBuilder.
+ */
+interface Subquery {
+    toNode(): SelectNode
 }
+
+const COMPARISON_OPERATORS: ColumnOperator[] = ['=', '>', '<', '>=', '<=', '!=', '<>']
+
 /**
  * A builder for constructing SQL WHERE and HAVING clauses.
+ * Conditions are recorded as nodes and compiled by the dialect when the query is built.
  */
 export default class ConditionBuilder {
 
-    private parts: ConditionNode[] = []
-
-    constructor(private ctx: ParamContext) {}
+    private parts: ConditionEntry[] = []
 
+    /**
+     * Adds conditions, joined to the previous ones with AND.
+     * @param obj - An object mapping columns to values or operator objects, or a callback adding a group of conditions.
+     * @returns The current ConditionBuilder instance.
+     */
     where(
-        obj: Record<string, any> | ((qb: ConditionBuilder) => void)
+        obj: Record<string, ConditionValue> | ((qb: ConditionBuilder) => void)
     ) {
 
         if (typeof obj === 'function') {
 
-            const nested = new ConditionBuilder(this.ctx)
+            const nested = new ConditionBuilder()
 
             obj(nested)
 
-            const built = nested.build()
-
-            if (built) {
-                this.add(`(${built.replace(/^WHERE\s/, '')})`)
+            if (nested.parts.length) {
+                this.add({kind: 'group', conditions: nested.toNodes()})
             }
 
             return this
@@ -58,7 +62,7 @@ export default class ConditionBuilder {
         Object.entries(obj).forEach(([key, condition]) => {
 
             if (condition === null) {
-                this.add(`${key} IS NULL`)
+                this.add({kind: 'null', column: key})
                 return
             }
 
@@ -68,26 +72,29 @@ export default class ConditionBuilder {
                 && 'op' in condition
             ) {
 
-                const { op, value } = condition as any
-
-                this.handleOperator(key, op, value)
+                this.handleOperator(key, condition)
                 return
             }
 
-            const placeholder = this.ctx.add(condition)
-            this.add(`${key} = ${placeholder}`)
+            this.add({kind: 'compare', column: key, op: '=', value: condition})
         })
 
         return this
     }
 
-    private handleOperator(key: string, op: Operator, value: any) {
+    private handleOperator(key: string, condition: OperatorCondition) {
+
+        const { op, value } = condition
 
         const allowed: Operator[] = [
             '=', '>', '<', '>=', '<=', '!=', '<>',
             'LIKE', 'ILIKE',
             'IN', 'NOT IN',
-            'BETWEEN', 'EXISTS'
+            'BETWEEN', 'EXISTS',
+            'IS DISTINCT FROM', 'IS NOT DISTINCT FROM',
+            'ANY', '&&',
+            '@>', '<@', '?', '?|', '?&',
+            '->', '->>'
         ]
 
         if (!allowed.includes(op)) {
@@ -99,14 +106,16 @@ export default class ConditionBuilder {
             case 'IN':
             case 'NOT IN': {
 
+                if (typeof value?.toNode === 'function') {
+                    this.add({kind: 'subquery', column: key, op, query: value.toNode() as SelectNode})
+                    break
+                }
+
                 if (!Array.isArray(value)) {
                     throw new Error(`${op} expects array`)
                 }
 
-                const placeholders =
-                    value.map(v => this.ctx.add(v)).join(', ')
-
-                this.add(`${key} ${op} (${placeholders})`)
+                this.add({kind: 'compare', column: key, op, value: [...value]})
                 break
             }
 
@@ -116,71 +125,231 @@ export default class ConditionBuilder {
                     throw new Error('BETWEEN expects [min,max]')
                 }
 
-                const p1 = this.ctx.add(value[0])
-                const p2 = this.ctx.add(value[1])
+                this.add({kind: 'compare', column: key, op, value: [...value]})
+                break
+            }
+
+            case 'ANY':
+            case '&&':
+            case '?|':
+            case '?&': {
+
+                if (!Array.isArray(value)) {
+                    throw new Error(`${op} expects array`)
+                }
+
+                this.add({kind: 'compare', column: key, op, value: [...value]})
+                break
+            }
+
+            case '@>':
+            case '<@': {
+
+                // Objects are jsonb documents; arrays are PostgreSQL arrays unless wrapped with json().
+                const document = isPlainObject(value) ? new Json(value) : value
+
+                this.add({kind: 'compare', column: key, op, value: document})
+                break
+            }
+
+            case '->':
+            case '->>': {
+
+                const path: unknown[] = Array.isArray(condition.path) ? condition.path : [condition.path]
+                const compare = condition.compare ?? '='
+
+                if (!path.length || path.some(segment => typeof segment !== 'string' && typeof segment !== 'number')) {
+                    throw new Error(`${op} expects a path of keys and array indexes`)
+                }
+
+                if (!COMPARISON_OPERATORS.includes(compare)) {
+                    throw new Error(`Invalid operator ${compare}`)
+                }
+
+                // -> extracts jsonb, so the value is compared as a JSON document; ->> extracts text.
+                const compared = op === '->' && !(value instanceof Json) ? new Json(value) : value
 
-                this.add(`${key} BETWEEN ${p1} AND ${p2}`)
+                this.add({kind: 'path', column: key, op, path: path as (string | number)[], compare, value: compared})
                 break
             }
 
             case 'EXISTS': {
 
-                if (!(value instanceof QueryBuilder)) {
+                if (typeof value?.toNode !== 'function') {
                     throw new Error('EXISTS expects QueryBuilder')
                 }
 
-                const { query, params } = value.build()
-                params.forEach(p => this.ctx.add(p))
-
-                this.add(`EXISTS (${query})`)
+                this.add({kind: 'exists', query: value.toNode() as SelectNode})
                 break
             }
 
             default: {
-                const placeholder = this.ctx.add(value)
-                this.add(`${key} ${op} ${placeholder}`)
+                this.add({kind: 'compare', column: key, op, value})
             }
         }
     }
 
-    private add(expression: string, type: 'AND' | 'OR' = 'AND') {
-        this.parts.push({ type, expression })
+    private add(node: ConditionNode, type: 'AND' | 'OR' = 'AND') {
+        this.parts.push({ type, node })
+    }
+
+    /**
+     * Builds the conditions of an object or callback as a single node.
+     * @param obj - An object mapping columns to values or operator objects, or a callback adding conditions.
+     * @returns The condition, a group when there are several, or undefined when there are none.
+     */
+    private collect(obj: Record<string, ConditionValue> | ((qb: ConditionBuilder) => void)): ConditionNode | undefined {
+        const nested = new ConditionBuilder()
+
+        if (typeof obj === 'function') {
+            obj(nested)
+        } else {
+            nested.where(obj)
+        }
+
+        if (nested.parts.length > 1) {
+            return {kind: 'group', conditions: nested.toNodes()}
+        }
+
+        return nested.parts[0]?.node
+    }
+
+    /**
+     * Adds conditions, joined to the previous ones with OR. Several conditions are grouped together first,
+     * so `orWhere({a: 1, b: 2})` adds `OR (a = 1 AND b = 2)`.
+     * @param obj - An object mapping columns to values or operator objects, or a callback adding conditions.
+     * @returns The current ConditionBuilder instance.
+     */
+    orWhere(obj: Record<string, ConditionValue> | ((qb: ConditionBuilder) => void)) {
+        const node = this.collect(obj)
+        if (node) this.add(node, 'OR')
+        return this
+    }
+
+    /**
+     * Adds negated conditions, joined to the previous ones with AND, e.g. `NOT (a = 1 AND b = 2)`.
+     * @param obj - An object mapping columns to values or operator objects, or a callback adding conditions.
+     * @returns The current ConditionBuilder instance.
+     */
+    whereNot(obj: Record<string, ConditionValue> | ((qb: ConditionBuilder) => void)) {
+        const node = this.collect(obj)
+        if (node) this.add({kind: 'not', condition: node})
+        return this
+    }
+
+    /**
+     * Requires a column to be null.
+     * @param column - The column.
+     * @returns The current ConditionBuilder instance.
+     */
+    whereNull(column: string | Raw) {
+        this.add({kind: 'null', column})
+        return this
+    }
+
+    /**
+     * Requires a column not to be null.
+     * @param column - The column.
+     * @returns The current ConditionBuilder instance.
+     */
+    whereNotNull(column: string | Raw) {
+        this.add({kind: 'not', condition: {kind: 'null', column}})
+        return this
+    }
+
+    /**
+     * Requires a subquery to return at least one row.
+     * @param sub - The subquery.
+     * @returns The current ConditionBuilder instance.
+     */
+    whereExists(sub: Subquery) {
+        this.add({kind: 'exists', query: sub.toNode()})
+        return this
+    }
+
+    /**
+     * Requires a subquery to return no row.
+     * @param sub - The subquery.
+     * @returns The current ConditionBuilder instance.
+     */
+    whereNotExists(sub: Subquery) {
+        this.add({kind: 'not', condition: {kind: 'exists', query: sub.toNode()}})
+        return this
+    }
+
+    /**
+     * Compares a column with the values returned by a subquery selecting a single column.
+     * @param column - The column.
+     * @param op - IN or NOT IN.
+     * @param sub - The subquery.
+     * @returns The current ConditionBuilder instance.
+     * @throws Error if the operator is not IN or NOT IN.
+     */
+    whereSub(column: string | Raw, op: 'IN' | 'NOT IN', sub: Subquery) {
+        if (op !== 'IN' && op !== 'NOT IN') {
+            throw new Error(`Invalid operator ${op}`)
+        }
+
+        this.add({kind: 'subquery', column, op, query: sub.toNode()})
+        return this
+    }
+
+    /**
+     * Compares two columns, e.g. in the ON clause of a join.
+     * @param left - The left column.
+     * @param op - The comparison operator.
+     * @param right - The right column.
+     * @returns The current ConditionBuilder instance.
+     * @throws Error if the operator is not a comparison operator.
+     */
+    whereColumn(left: string | Raw, op: ColumnOperator, right: string | Raw) {
+        if (!COMPARISON_OPERATORS.includes(op)) {
+            throw new Error(`Invalid operator ${op}`)
+        }
+
+        this.add({kind: 'column', left, op, right})
+        return this
     }
 
-    raw(expression: string) {
-        this.add(expression)
+    raw(expression: string | Raw) {
+        this.add({
+            kind: 'raw',
+            sql: expression instanceof Raw ? expression : new Raw(expression)
+        })
         return this
     }
 
     andGroup(cb: (qb: ConditionBuilder) => void) {
 
-        const nested = new ConditionBuilder(this.ctx)
+        const nested = new ConditionBuilder()
         cb(nested)
 
-        const built = nested.build()
-        if (!built) return this
+        if (!nested.parts.length) return this
 
-        this.add(`(${built.replace(/^WHERE\s/, '')})`, 'AND')
+        this.add({kind: 'group', conditions: nested.toNodes()}, 'AND')
 
         return this
     }
 
     orGroup(cb: (qb: ConditionBuilder) => void) {
 
-        const nested = new ConditionBuilder(this.ctx)
+        const nested = new ConditionBuilder()
         cb(nested)
 
-        const built = nested.build()
-        if (!built) return this
+        if (!nested.parts.length) return this
 
-        this.add(`(${built.replace(/^WHERE\s/, '')})`, 'OR')
+        this.add({kind: 'group', conditions: nested.toNodes()}, 'OR')
 
         return this
     }
 
+    /**
+     * Creates a copy of the recorded conditions.
+     * @returns A new ConditionBuilder instance.
+     */
     clone(): ConditionBuilder {
 
-        const cloned = new ConditionBuilder(this.ctx)
+        const cloned = new ConditionBuilder()
 
         cloned.parts = this.parts.map(p => ({
             ...p
@@ -189,22 +358,39 @@ export default class ConditionBuilder {
         return cloned
     }
 
-    build(prefix = 'WHERE'): string {
-
-        if (!this.parts.length) return ''
+    /**
+     * Creates a copy of the recorded conditions wrapped in a single group when they contain OR,
+     * so that a condition added with AND applies to all of them rather than to the last branch.
+     * @returns A new ConditionBuilder instance.
+     */
+    grouped(): ConditionBuilder {
 
-        let sql = ''
+        if (!this.parts.some(p => p.type === 'OR')) return this.clone()
 
-        this.parts.forEach((part, index) => {
+        const grouped = new ConditionBuilder()
 
-            if (index === 0) {
-                sql += part.expression
-            } else {
-                sql += ` ${part.type} ${part.expression}`
-            }
+        grouped.add({kind: 'group', conditions: this.toNodes()})
 
-        })
+        return grouped
+    }
 
-        return `${prefix} ${sql}`
+    /**
+     * Returns the recorded conditions as nodes, to be compiled by a dialect.
+     * @returns The list of condition entries.
+     */
+    toNodes(): ConditionEntry[] {
+        return [...this.parts]
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Checks whether a value is a plain object, as opposed to an array, a Date, a Buffer or a class instance.
+ * @param value - The value to check.
+ * @returns True for plain objects.
+ */
+function isPlainObject(value: any): boolean {
+    if (typeof value !== 'object' || value === null) return false
+
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+}
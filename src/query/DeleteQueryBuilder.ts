@@ -0,0 +1,123 @@
+import ConditionBuilder from './ConditionBuilder'
+import Raw from './Raw'
+import QueryExecutor from '../core/QueryExecutor'
+import {Dialect} from '../dialects/Dialect'
+import {tableTag} from '../cache/CacheStore'
+import {DeleteNode} from './QueryNode'
+
+/**
+ * A fluent builder for DELETE statements with WHERE and RETURNING support.
+ * A DELETE without conditions is refused unless allowFullTable() is called.
+ * @template T The type of the rows stored in the table.
+ * @template R The type of the rows returned by the RETURNING clause.
+ */
+export default class DeleteQueryBuilder<T = any, R = T> {
+    /**
+     * The fields returned by the RETURNING clause.
+     */
+    private returningFields: string[] = []
+    /**
+     * Whether the delete may run without a WHERE clause.
+     */
+    private fullTable = false
+
+    /**
+     * Creates an instance of DeleteQueryBuilder.
+     * @param table - The name of the table to delete from.
+     * @param executor - The query executor to use.
+     * @param dialect - The database dialect to use.
+     * @param condition - The condition builder for the WHERE clause.
+     */
+    constructor(
+        private table: string,
+        private executor: QueryExecutor,
+        private dialect: Dialect,
+        private condition: ConditionBuilder
+    ) {
+    }
+
+    /**
+     * Adds WHERE conditions based on an object or a callback.
+     * @param obj - An object where keys are column names and values are the desired values, or a callback receiving a ConditionBuilder.
+     * @returns The current DeleteQueryBuilder instance.
+     */
+    where(obj: Partial<T> | Record<string, any> | ((qb: ConditionBuilder) => void)) {
+        this.condition.where(obj as any)
+        return this
+    }
+
+    /**
+     * Adds a raw WHERE expression.
+     * @param expression - The raw SQL expression for the WHERE clause, or a sql fragment binding its values.
+     * @returns The current DeleteQueryBuilder instance.
+     */
+    whereRaw(expression: string | Raw) {
+        this.condition.raw(expression)
+        return this
+    }
+
+    /**
+     * Allows the delete to run without a WHERE clause, removing every row of the table.
+     * @returns The current DeleteQueryBuilder instance.
+     */
+    allowFullTable() {
+        this.fullTable = true
+        return this
+    }
+
+    /**
+     * Specifies the fields to return from the deleted rows.
+     * @param fields - An array of field names, a single field name, or '*' for every column.
+     * @returns The current builder, typed with the returned fields.
+     */
+    returning(fields: '*'): DeleteQueryBuilder<T, T>
+    returning<K extends keyof T>(fields: K[] | K): DeleteQueryBuilder<T, Pick<T, K>>
+    returning(fields: any): DeleteQueryBuilder<T, any> {
+        const normalized = Array.isArray(fields) ? fields : [fields]
+        this.returningFields = normalized.map(String)
+        return this
+    }
+
+    /**
+     * Returns the statement as a DELETE node, to be compiled by a dialect.
+     * @returns The DELETE node.
+     * @throws Error if there is no WHERE clause and allowFullTable() was not called.
+     */
+    toNode(): DeleteNode {
+        const where = this.condition.toNodes()
+
+        if (!where.length && !this.fullTable) {
+            throw new Error(
+                'DELETE without a WHERE clause is not allowed, call allowFullTable() to delete every row'
+            )
+        }
+
+        return {
+            type: 'delete',
+            table: this.table,
+            where,
+            returning: [...this.returningFields]
+        }
+    }
+
+    /**
+     * Builds the SQL query string and its parameters without executing it.
+     * @returns An object containing the SQL query string and an array of parameters.
+     * @throws Error if there is no WHERE clause and allowFullTable() was not called.
+     */
+    build() {
+        return this.dialect.compile(this.toNode())
+    }
+
+    /**
+     * Executes the DELETE and returns the rows produced by the RETURNING clause.
+     * Evicts the cached reads of the table.
+     * @returns A Promise that resolves to the returned rows, or an empty array without RETURNING.
+     */
+    async execute(): Promise<R[]> {
+        const {query, params} = this.build()
+        const result = await this.executor.execute(query, params)
+        await this.executor.invalidate([tableTag(this.table)])
+        return result.rows
+    }
+}
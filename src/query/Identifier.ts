@@ -0,0 +1,81 @@
+import {Dialect} from '../dialects/Dialect'
+import Raw from './Raw'
+
+/**
+ * A single identifier segment: a plain name, or a name already quoted with double quotes or backticks.
+ */
+const SEGMENT = '(?:[A-Za-z_][A-Za-z0-9_$]*|"(?:[^"]|"")+"|`(?:[^`]|``)+`)'
+
+/**
+ * Matches `schema.table.column`, `table.*` and an optional `[AS] alias`.
+ */
+const IDENTIFIER = new RegExp(
+    `^(${SEGMENT}(?:\\.${SEGMENT})*)(\\.\\*)?(?:\\s+(?:AS\\s+)?(${SEGMENT}))?$`,
+    'i'
+)
+
+/**
+ * Splits a dotted identifier into its segments, keeping dots inside quoted segments.
+ * @param path - The dotted identifier.
+ * @returns The list of segments.
+ */
+function splitSegments(path: string): string[] {
+    return path.match(new RegExp(SEGMENT, 'g')) ?? []
+}
+
+/**
+ * Quotes a single segment with the dialect. Segments already quoted, with either quote character,
+ * are unquoted first, so the SQL only ever holds the quoting of the dialect.
+ * @param dialect - The dialect to quote with.
+ * @param segment - The identifier segment.
+ * @returns The quoted segment.
+ */
+function quoteSegment(dialect: Dialect, segment: string) {
+    const quote = segment[0]
+
+    if (quote === '"' || quote === '`') {
+        return dialect.wrapIdentifier(segment.slice(1, -1).split(quote + quote).join(quote))
+    }
+
+    return dialect.wrapIdentifier(segment)
+}
+
+/**
+ * Parses and quotes an identifier reference such as `users`, `public.users u`, `orders.*` or `users.id AS user_id`.
+ * Raw fragments are returned as-is.
+ * @param dialect - The dialect to quote with.
+ * @param identifier - The identifier reference, or a Raw fragment.
+ * @param allowAlias - Whether the reference may end with an `[AS] alias`, as in a select list or a FROM clause.
+ * @returns The quoted identifier reference.
+ * @throws Error if the reference is not a valid identifier, such as a SQL expression, or has a disallowed alias.
+ */
+export function quoteIdentifier(dialect: Dialect, identifier: string | Raw, allowAlias = false): string {
+    if (identifier instanceof Raw) return identifier.sql
+
+    const trimmed = identifier.trim()
+
+    if (trimmed === '*') return '*'
+
+    const match = IDENTIFIER.exec(trimmed)
+
+    if (!match) {
+        throw new Error(
+            `Invalid identifier "${identifier}", use raw() for SQL expressions`
+        )
+    }
+
+    const [, path, star, alias] = match
+
+    if (alias && !allowAlias) {
+        throw new Error(`Invalid identifier "${identifier}", an alias is only allowed in a select list or a FROM clause`)
+    }
+
+    let quoted = splitSegments(path)
+        .map(segment => quoteSegment(dialect, segment))
+        .join('.')
+
+    if (star) quoted += '.*'
+    if (alias) quoted += ` AS ${quoteSegment(dialect, alias)}`
+
+    return quoted
+}
@@ -0,0 +1,307 @@
+import ConditionBuilder from './ConditionBuilder'
+import QueryExecutor from '../core/QueryExecutor'
+import TransactionManager from '../core/TransactionManager'
+import {Dialect} from '../dialects/Dialect'
+import {tableTag} from '../cache/CacheStore'
+import {AssignmentNode, ConflictNode, InsertNode} from './QueryNode'
+
+/**
+ * The maximum number of bind parameters PostgreSQL accepts in a single statement.
+ */
+const MAX_BIND_PARAMS = 65535
+
+type ConflictTarget = string | string[] | { constraint: string }
+type ConflictWhere = Record<string, any> | ((qb: ConditionBuilder) => void)
+
+/**
+ * A reference to the value proposed for insertion, usable in ON CONFLICT DO UPDATE assignments.
+ */
+export class ExcludedColumn {
+    /**
+     * Creates an instance of ExcludedColumn.
+     * @param column - The name of the column of the EXCLUDED row.
+     */
+    constructor(public readonly column: string) {
+    }
+}
+
+/**
+ * Creates a reference to a column of the EXCLUDED row of an upsert.
+ * @param column - The name of the column.
+ * @returns An ExcludedColumn instance.
+ */
+export function excluded(column: string) {
+    return new ExcludedColumn(column)
+}
+
+/**
+ * A fluent builder for INSERT statements with multi-row VALUES and RETURNING support.
+ * Rows are split into several statements when they would exceed the bind-parameter limit.
+ * @template T The type of the rows stored in the table.
+ * @template R The type of the rows returned by the RETURNING clause.
+ */
+export default class InsertQueryBuilder<T = any, R = T> {
+    /**
+     * The rows to be inserted.
+     */
+    private rows: Partial<T>[]
+    /**
+     * The fields returned by the RETURNING clause.
+     */
+    private returningFields: string[] = []
+    /**
+     * The conflict target of the ON CONFLICT clause.
+     */
+    private conflictTarget?: ConflictTarget
+    /**
+     * The action taken on conflict.
+     */
+    private conflictAction?: 'NOTHING' | 'UPDATE'
+    /**
+     * The assignments of the DO UPDATE clause. A list of columns takes the EXCLUDED value.
+     */
+    private mergeFields?: string[] | Record<string, any>
+    /**
+     * The conditions of the DO UPDATE clause.
+     */
+    private conflictCondition = new ConditionBuilder()
+
+    /**
+     * Creates an instance of InsertQueryBuilder.
+     * @param table - The name of the table to insert into.
+     * @param executor - The query executor to use.
+     * @param dialect - The database dialect to use.
+     * @param rows - A single row or an array of rows to insert.
+     */
+    constructor(
+        private table: string,
+        private executor: QueryExecutor,
+        private dialect: Dialect,
+        rows: Partial<T> | Partial<T>[]
+    ) {
+        this.rows = Array.isArray(rows) ? rows : [rows]
+
+        if (!this.rows.length) {
+            throw new Error('INSERT expects at least one row')
+        }
+    }
+
+    /**
+     * Specifies the fields to return from the inserted rows.
+     * @param fields - An array of field names, a single field name, or '*' for every column.
+     * @returns The current builder, typed with the returned fields.
+     */
+    returning(fields: '*'): InsertQueryBuilder<T, T>
+    returning<K extends keyof T>(fields: K[] | K): InsertQueryBuilder<T, Pick<T, K>>
+    returning(fields: any): InsertQueryBuilder<T, any> {
+        const normalized = Array.isArray(fields) ? fields : [fields]
+        this.returningFields = normalized.map(String)
+        return this
+    }
+
+    /**
+     * Adds an ON CONFLICT clause. Must be followed by merge() or ignore().
+     * @param target - The conflicting column(s), or `{constraint: name}` for ON CONFLICT ON CONSTRAINT.
+     * Can be omitted when used with ignore().
+     * @returns The current InsertQueryBuilder instance.
+     */
+    onConflict(target?: (keyof T & string) | (keyof T & string)[] | { constraint: string }) {
+        this.conflictTarget = target
+        return this
+    }
+
+    /**
+     * Turns the conflict into an update of the existing row (ON CONFLICT DO UPDATE).
+     * @param fields - The columns to overwrite with their EXCLUDED value, or an object of columns and values.
+     * Values may reference the proposed row with `excluded(column)`.
+     * Defaults to every inserted column except the conflict target.
+     * @returns The current InsertQueryBuilder instance.
+     */
+    merge(fields?: (keyof T & string)[] | Partial<Record<keyof T, any>>) {
+        this.conflictAction = 'UPDATE'
+        this.mergeFields = fields as string[] | Record<string, any>
+        return this
+    }
+
+    /**
+     * Skips the conflicting rows (ON CONFLICT DO NOTHING).
+     * @returns The current InsertQueryBuilder instance.
+     */
+    ignore() {
+        this.conflictAction = 'NOTHING'
+        return this
+    }
+
+    /**
+     * Adds conditions to the DO UPDATE clause, so the existing row is only updated when they hold.
+     * @param obj - An object where keys are column names and values are the desired values, or a callback receiving a ConditionBuilder.
+     * @returns The current InsertQueryBuilder instance.
+     */
+    where(obj: ConflictWhere) {
+        this.conflictCondition.where(obj)
+        return this
+    }
+
+    /**
+     * Returns the ON CONFLICT clause as a node.
+     * @param columns - The inserted columns.
+     * @returns The conflict node, or undefined if onConflict() was not called.
+     */
+    private conflictNode(columns: string[]): ConflictNode | undefined {
+        if (this.conflictTarget === undefined && !this.conflictAction) return undefined
+
+        if (!this.conflictAction) {
+            throw new Error('onConflict() must be followed by merge() or ignore()')
+        }
+
+        const target = this.conflictTarget === undefined || Array.isArray(this.conflictTarget)
+            ? this.conflictTarget
+            : typeof this.conflictTarget === 'string'
+                ? [this.conflictTarget]
+                : this.conflictTarget
+
+        const where = this.conflictCondition.toNodes()
+
+        if (this.conflictAction === 'NOTHING') {
+            if (where.length) {
+                throw new Error('ON CONFLICT DO NOTHING does not accept WHERE conditions')
+            }
+
+            return {target, action: 'NOTHING', set: [], where}
+        }
+
+        if (target === undefined) {
+            throw new Error('ON CONFLICT DO UPDATE requires a conflict target')
+        }
+
+        const targetColumns = Array.isArray(target) ? target : []
+        const fields = this.mergeFields ?? columns.filter(c => !targetColumns.includes(c))
+
+        const set: AssignmentNode[] = Array.isArray(fields)
+            ? fields.map(column => ({column, excluded: column}))
+            : Object.entries(fields)
+                .filter(([, value]) => value !== undefined)
+                .map(([column, value]) =>
+                    value instanceof ExcludedColumn
+                        ? {column, excluded: value.column}
+                        : {column, value}
+                )
+
+        if (!set.length) {
+            throw new Error('ON CONFLICT DO UPDATE expects at least one column to merge')
+        }
+
+        return {target, action: 'UPDATE', set, where}
+    }
+
+    /**
+     * Computes the union of the columns present in every row, in first-seen order.
+     * Keys whose value is undefined are ignored.
+     * @returns The list of column names.
+     */
+    private columns(): string[] {
+        const columns = new Set<string>()
+
+        this.rows.forEach(row => {
+            Object.entries(row as Record<string, any>).forEach(([key, value]) => {
+                if (value !== undefined) columns.add(key)
+            })
+        })
+
+        return [...columns]
+    }
+
+    /**
+     * Returns a single INSERT statement for the given rows as a node, to be compiled by a dialect.
+     * @param rows - The rows to include in the statement. Defaults to every row.
+     * @returns The INSERT node.
+     */
+    toNode(rows: Partial<T>[] = this.rows): InsertNode {
+        const columns = this.columns()
+
+        return {
+            type: 'insert',
+            table: this.table,
+            columns,
+            rows: rows as Record<string, any>[],
+            conflict: this.conflictNode(columns),
+            returning: [...this.returningFields]
+        }
+    }
+
+    /**
+     * Builds one INSERT statement per chunk of rows, keeping each statement under the bind-parameter limit.
+     * @returns An array of objects containing the SQL query string and an array of parameters.
+     */
+    buildChunks() {
+        const columns = this.columns()
+
+        // The ON CONFLICT clause is repeated in every statement, so its parameters are reserved first.
+        const overhead = this.dialect.compile(this.toNode([])).params.length
+        const available = MAX_BIND_PARAMS - overhead
+
+        // A row without columns can only be inserted with DEFAULT VALUES, one statement per row.
+        const chunkSize = columns.length
+            ? Math.floor(available / columns.length)
+            : 1
+
+        const statements = []
+
+        for (let i = 0; i < this.rows.length; i += chunkSize) {
+            statements.push(
+                this.dialect.compile(this.toNode(this.rows.slice(i, i + chunkSize)))
+            )
+        }
+
+        return statements
+    }
+
+    /**
+     * Builds the SQL query string and its parameters for all rows in a single statement.
+     * @returns An object containing the SQL query string and an array of parameters.
+     */
+    build() {
+        return this.dialect.compile(this.toNode())
+    }
+
+    /**
+     * Runs the statements sequentially on the given executor.
+     * @param executor - The query executor to use.
+     * @param statements - The statements to run.
+     * @returns The concatenated rows returned by every statement.
+     */
+    private async run(
+        executor: QueryExecutor,
+        statements: { query: string, params: readonly any[] }[]
+    ): Promise<R[]> {
+        const rows: R[] = []
+
+        for (const {query, params} of statements) {
+            const result = await executor.execute(query, params)
+            rows.push(...result.rows)
+        }
+
+        return rows
+    }
+
+    /**
+     * Executes the INSERT and returns the rows produced by the RETURNING clause.
+     * When the rows are split into several statements outside of a transaction,
+     * they are run inside a new transaction so the insert stays atomic. Evicts the cached reads of the table.
+     * @returns A Promise that resolves to the returned rows, or an empty array without RETURNING.
+     */
+    async execute(): Promise<R[]> {
+        const statements = this.buildChunks()
+        const pool = this.executor.getPool()
+
+        const rows = statements.length === 1 || !pool
+            ? await this.run(this.executor, statements)
+            : await new TransactionManager(pool).transaction(client =>
+                this.run(this.executor.forClient(client), statements)
+            )
+
+        await this.executor.invalidate([tableTag(this.table)])
+
+        return rows
+    }
+}
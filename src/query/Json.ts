@@ -0,0 +1,29 @@
+/**
+ * A value bound as a JSON document, serialized with JSON.stringify instead of the driver's default conversion,
+ * which turns arrays into PostgreSQL arrays.
+ */
+export default class Json {
+    /**
+     * Creates an instance of Json.
+     * @param value - The value to serialize.
+     */
+    constructor(public readonly value: unknown) {
+    }
+
+    /**
+     * Returns the serialized JSON document.
+     * @returns The JSON text.
+     */
+    toString() {
+        return JSON.stringify(this.value)
+    }
+}
+
+/**
+ * Marks a value to be bound as a JSON document, e.g. an array compared with a jsonb column.
+ * @param value - The value to serialize.
+ * @returns A Json instance.
+ */
+export function json(value: unknown) {
+    return new Json(value)
+}
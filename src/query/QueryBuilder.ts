@@ -1,35 +1,172 @@
-import ParamContext from '../core/ParamContext'
 import ConditionBuilder from './ConditionBuilder'
 import QueryExecutor from '../core/QueryExecutor'
+import InsertQueryBuilder from './InsertQueryBuilder'
+import UpdateQueryBuilder from './UpdateQueryBuilder'
+import DeleteQueryBuilder from './DeleteQueryBuilder'
 import {Dialect} from '../dialects/Dialect'
+import {tableTag} from '../cache/CacheStore'
+import {quoteIdentifier} from './Identifier'
+import Raw, {raw} from './Raw'
+import Json from './Json'
+import WindowExpression, {WindowSpec} from './Window'
+import {
+    ColumnOperator,
+    FieldNode,
+    FromNode,
+    Identifier,
+    JoinNode,
+    JoinType,
+    OrderNode,
+    SelectNode,
+    SetOperationNode,
+    SetOperator,
+    WindowSpecNode
+} from './QueryNode'
 
-type JoinType = 'INNER' | 'LEFT' | 'RIGHT'
-type WhereInput<T> =
-    | Partial<T>
-    | Record<string, any>
-    | Array<Record<string, any>>
+/**
+ * The ON clause of a join: a callback receiving a ConditionBuilder, or the local key of an equality with a foreign key.
+ */
+type JoinCondition = string | ((on: ConditionBuilder) => void)
+
+/**
+ * A column of T, bare or qualified with a table name or alias.
+ */
+export type Column<T> = (keyof T & string) | `${string}.${keyof T & string}`
+
+/**
+ * A column of T to select, optionally renamed with `AS`.
+ */
+export type SelectableColumn<T> = Column<T> | `${Column<T>} AS ${string}`
+
+/**
+ * The row type of the selected columns: `Pick<T, K>` for bare columns, and otherwise keyed by the alias
+ * or the unqualified column name.
+ */
+export type Selected<T, F extends string> = IsAny<T> extends true
+    ? any
+    : [F] extends [keyof T]
+        ? Pick<T, F>
+        : { [A in F as FieldKey<A>]: FieldColumn<A> extends keyof T ? T[FieldColumn<A>] : unknown }
+
+/**
+ * The value a column of type V is compared with: the value itself, null for IS NULL, or an operator object.
+ */
+export type WhereValue<V> =
+    | V
+    | null
+    | { op: '=' | '>' | '<' | '>=' | '<=' | '!=' | '<>', value: V }
+    | { op: 'LIKE' | 'ILIKE', value: string }
+    | { op: 'IN' | 'NOT IN', value: V[] | QueryBuilder<any, any, any> }
+    | { op: 'BETWEEN', value: [V, V] }
+    | { op: 'EXISTS', value: QueryBuilder<any, any, any> }
+    | { op: 'IS DISTINCT FROM' | 'IS NOT DISTINCT FROM', value: V }
+    | { op: 'ANY', value: V[] }
+    | { op: '&&' | '@>' | '<@', value: V | Json }
+    | { op: '?', value: string }
+    | { op: '?|' | '?&', value: string[] }
+    | { op: '->' | '->>', path: string | number | (string | number)[], compare?: ColumnOperator, value: unknown }
+
+/**
+ * WHERE conditions on the columns of T, bare or qualified, checked against the column types.
+ */
+export type Where<T> = {
+    [K in keyof T & string as K | `${string}.${K}`]?: WhereValue<T[K]>
+}
+
+/**
+ * The columns of T, all nullable, as on the optional side of an outer join.
+ */
+export type Nullable<T> = IsAny<T> extends true ? any : { [K in keyof T]: T[K] | null }
+
+type IsAny<T> = 0 extends 1 & T ? true : false
+
+/**
+ * The property a selected field is returned as: its alias, or its unqualified column name.
+ */
+type FieldKey<F> = F extends `${string} AS ${infer A}`
+    ? A
+    : F extends `${string}.${infer C}` ? FieldKey<C> : F
+
+/**
+ * The unqualified column a selected field reads.
+ */
+type FieldColumn<F> = F extends `${infer C} AS ${string}`
+    ? FieldColumn<C>
+    : F extends `${string}.${infer C}` ? FieldColumn<C> : F
+
+/**
+ * The result row once a join makes the columns W available: W itself, unless columns were already selected.
+ */
+type Widened<T, R, W> = [R] extends [T] ? ([T] extends [R] ? W : R) : R
+
+/**
+ * A page of results of an offset-paginated query.
+ */
+export interface Paginated<T> {
+    data: T[]
+    /**
+     * The number of rows matching the query, across all pages.
+     */
+    total: number
+    page: number
+    perPage: number
+    /**
+     * The number of the last page, at least 1.
+     */
+    lastPage: number
+}
+
+/**
+ * A page of results of a keyset-paginated query.
+ */
+export interface CursorPage<T> {
+    data: T[]
+    /**
+     * The opaque cursor to pass as `after` to fetch the next page, or null on the last page.
+     */
+    nextCursor: string | null
+    hasMore: boolean
+}
 
 /**
  * A fluent SQL query builder for constructing and executing database queries.
- * @template T The expected type of the results.
+ * @template T The columns available to the query: the row type of the table, widened by joins.
+ * @template R The type of the result rows. Defaults to T, and narrows to the selected columns.
+ * @template DB The table map of the database, used to type joined tables by name.
  */
-export default class QueryBuilder<T = any> {
+export default class QueryBuilder<T = any, R = T, DB = {}> {
     /**
      * The fields to be selected in the query.
      */
-    private fields: string[] = []
+    private fields: FieldNode[] = []
+    /**
+     * Whether the query selects distinct rows.
+     */
+    private distinctRows = false
+    /**
+     * The DISTINCT ON expressions.
+     */
+    private distinctOnFields: Identifier[] = []
     /**
      * The join clauses for the query.
      */
-    private joins: string[] = []
+    private joins: JoinNode[] = []
     /**
      * The fields to group by.
      */
-    private groupByFields: string[] = []
+    private groupByFields: Identifier[] = []
     /**
      * The fields to order by.
      */
-    private orderByFields: string[] = []
+    private orderByFields: OrderNode[] = []
+    /**
+     * The named windows of the WINDOW clause.
+     */
+    private windows: { name: string, spec: WindowSpecNode }[] = []
+    /**
+     * The queries combined with this one by set operations.
+     */
+    private setOperations: SetOperationNode[] = []
     /**
      * The maximum number of rows to return.
      */
@@ -43,18 +180,22 @@ export default class QueryBuilder<T = any> {
      */
     private ctes: {
         name: string
-        query: QueryBuilder<any>
+        query: QueryBuilder<any, any, any>
         recursive?: boolean
     }[] = []
 
+    /**
+     * The name of the table the builder was created for.
+     */
+    private table: string
     /**
      * The FROM clause of the query.
      */
-    private fromClause: string
+    private fromClause: FromNode
     /**
-     * The parameter context for managing query parameters.
+     * The tables the query reads from, used to tag cached results.
      */
-    private ctx: ParamContext
+    private tables: string[] = []
     /**
      * The condition builder for WHERE clauses.
      */
@@ -77,84 +218,345 @@ export default class QueryBuilder<T = any> {
         private dialect: Dialect,
         private cacheTTL?: number | 0
     ) {
-        this.fromClause = table
-        this.ctx = new ParamContext(this.dialect)
-        this.condition = new ConditionBuilder(this.ctx)
-        this.havingCondition = new ConditionBuilder(this.ctx)
+        this.table = table
+        this.fromClause = {kind: 'table', table}
+        this.tables = [tableTag(table)]
+        this.condition = new ConditionBuilder()
+        this.havingCondition = new ConditionBuilder()
+    }
+
+    /**
+     * Specifies the fields to select. Field names are quoted; use raw() for SQL expressions and over() for window functions.
+     * Selecting columns of T narrows the result rows to them; with Raw expressions or window functions, the rows are untyped.
+     * @param fields - An array of columns of T, optionally qualified or renamed with `AS`, Raw expressions or window function calls.
+     * @returns The current builder, typed with the selected fields.
+     */
+    select<F extends SelectableColumn<T>>(fields: F[] | F): QueryBuilder<T, Selected<T, F>, DB>
+    select(fields: (SelectableColumn<T> | Raw | WindowExpression)[] | Raw | WindowExpression): QueryBuilder<T, any, DB>
+    select(fields: any): QueryBuilder<T, any, DB> {
+        const normalized: (string | Raw | WindowExpression)[] = Array.isArray(fields) ? fields : [fields]
+        this.fields = normalized.map(field => {
+            if (field instanceof WindowExpression) return field.toNode()
+            return field instanceof Raw ? field : String(field)
+        })
+        return this
     }
 
     /**
-     * Specifies the fields to select.
-     * @param fields - An array of field names or keys of T.
+     * Selects distinct rows only.
      * @returns The current QueryBuilder instance.
      */
-    select(fields: (keyof T | string)[] | keyof T | string) {
+    distinct() {
+        this.distinctRows = true
+        return this
+    }
+
+    /**
+     * Keeps the first row of each set of rows sharing the given expressions (PostgreSQL DISTINCT ON).
+     * The ORDER BY must start with the same expressions, and decides which row is kept.
+     * @param fields - A single field name or Raw expression, or an array of them.
+     * @returns The current QueryBuilder instance.
+     */
+    distinctOn(fields: Column<T> | Raw | (Column<T> | Raw)[]) {
         const normalized = Array.isArray(fields) ? fields : [fields]
-        this.fields = normalized.map(String)
+        this.distinctOnFields.push(...normalized)
         return this
     }
+
+    /**
+     * Defines a named window in the WINDOW clause, for window functions to refer to with over().
+     * @param name - The name of the window.
+     * @param define - A callback defining the partitions, ordering and frame of the window.
+     * @returns The current QueryBuilder instance.
+     */
+    window(name: string, define: (w: WindowSpec) => void) {
+        const spec = new WindowSpec()
+        define(spec)
+
+        this.windows.push({name, spec: spec.toNode()})
+        return this
+    }
+
     /**
      * Adds a join clause to the query.
-     * @param type - The type of join (INNER, LEFT, RIGHT).
-     * @param table - The table to join.
-     * @param localKey - The local key for the join condition.
-     * @param foreignKey - The foreign key for the join condition.
+     * @param type - The type of join.
+     * @param source - The table to join, or a subquery and its alias.
+     * @param on - The ON conditions, as a callback receiving a ConditionBuilder, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
+     * @param lateral - Whether the subquery may reference the preceding FROM items.
      * @returns The current QueryBuilder instance.
      */
-    private addJoin(type: JoinType, table: string, localKey: string, foreignKey: string) {
-        this.joins.push(`${type} JOIN ${table} ON ${localKey} = ${foreignKey}`)
+    private addJoin(
+        type: JoinType,
+        source: string | { query: QueryBuilder<any, any, any>, alias: string },
+        on?: JoinCondition,
+        foreignKey?: string,
+        lateral = false
+    ) {
+        const conditions = new ConditionBuilder()
+
+        if (typeof on === 'function') {
+            on(conditions)
+        } else if (on !== undefined) {
+            if (foreignKey === undefined) {
+                throw new Error('Join expects a foreign key or an ON callback')
+            }
+
+            conditions.whereColumn(on, '=', foreignKey)
+        }
+
+        if (typeof source === 'string') {
+            this.joins.push({type, lateral, source: {kind: 'table', table: source}, on: conditions.toNodes()})
+            this.tables.push(tableTag(source))
+        } else {
+            this.joins.push({
+                type,
+                lateral,
+                source: {kind: 'subquery', query: source.query.toNode(), alias: source.alias},
+                on: conditions.toNodes()
+            })
+            this.tables.push(...source.query.tables)
+        }
+
         return this
     }
 
     /**
      * Adds an INNER JOIN clause.
      * @param table - The table to join.
-     * @param localKey - The local key for the join condition.
-     * @param foreignKey - The foreign key for the join condition.
+     * @param on - A callback receiving a ConditionBuilder for the ON clause, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
      * @returns The current QueryBuilder instance.
      */
-    join(table: string, localKey: string, foreignKey: string) {
-        return this.addJoin('INNER', table, localKey, foreignKey)
+    join<K extends keyof DB & string>(table: K, on: JoinCondition, foreignKey?: string): QueryBuilder<T & DB[K], Widened<T, R, T & DB[K]>, DB>
+    join<J = {}>(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<T & J, Widened<T, R, T & J>, DB>
+    join(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<any, any, DB> {
+        return this.addJoin('INNER', table, on, foreignKey)
     }
 
     /**
      * Adds a LEFT JOIN clause.
      * @param table - The table to join.
-     * @param localKey - The local key for the join condition.
-     * @param foreignKey - The foreign key for the join condition.
+     * @param on - A callback receiving a ConditionBuilder for the ON clause, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
      * @returns The current QueryBuilder instance.
      */
-    leftJoin(table: string, localKey: string, foreignKey: string) {
-        return this.addJoin('LEFT', table, localKey, foreignKey)
+    leftJoin<K extends keyof DB & string>(table: K, on: JoinCondition, foreignKey?: string): QueryBuilder<T & Nullable<DB[K]>, Widened<T, R, T & Nullable<DB[K]>>, DB>
+    leftJoin<J = {}>(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<T & Nullable<J>, Widened<T, R, T & Nullable<J>>, DB>
+    leftJoin(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<any, any, DB> {
+        return this.addJoin('LEFT', table, on, foreignKey)
     }
 
     /**
      * Adds a RIGHT JOIN clause.
      * @param table - The table to join.
-     * @param localKey - The local key for the join condition.
-     * @param foreignKey - The foreign key for the join condition.
+     * @param on - A callback receiving a ConditionBuilder for the ON clause, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
      * @returns The current QueryBuilder instance.
      */
-    rightJoin(table: string, localKey: string, foreignKey: string) {
-        return this.addJoin('RIGHT', table, localKey, foreignKey)
+    rightJoin<K extends keyof DB & string>(table: K, on: JoinCondition, foreignKey?: string): QueryBuilder<Nullable<T> & DB[K], Widened<T, R, Nullable<T> & DB[K]>, DB>
+    rightJoin<J = {}>(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<Nullable<T> & J, Widened<T, R, Nullable<T> & J>, DB>
+    rightJoin(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<any, any, DB> {
+        return this.addJoin('RIGHT', table, on, foreignKey)
     }
 
     /**
-     * Adds WHERE conditions based on an object.
-     * @param obj - An object where keys are column names and values are the desired values.
+     * Adds a FULL OUTER JOIN clause.
+     * @param table - The table to join.
+     * @param on - A callback receiving a ConditionBuilder for the ON clause, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
+     * @returns The current QueryBuilder instance.
+     */
+    fullJoin<K extends keyof DB & string>(table: K, on: JoinCondition, foreignKey?: string): QueryBuilder<Nullable<T> & Nullable<DB[K]>, Widened<T, R, Nullable<T> & Nullable<DB[K]>>, DB>
+    fullJoin<J = {}>(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<Nullable<T> & Nullable<J>, Widened<T, R, Nullable<T> & Nullable<J>>, DB>
+    fullJoin(table: string, on: JoinCondition, foreignKey?: string): QueryBuilder<any, any, DB> {
+        return this.addJoin('FULL', table, on, foreignKey)
+    }
+
+    /**
+     * Adds a CROSS JOIN clause.
+     * @param table - The table to join.
+     * @returns The current QueryBuilder instance.
+     */
+    crossJoin<K extends keyof DB & string>(table: K): QueryBuilder<T & DB[K], Widened<T, R, T & DB[K]>, DB>
+    crossJoin<J = {}>(table: string): QueryBuilder<T & J, Widened<T, R, T & J>, DB>
+    crossJoin(table: string): QueryBuilder<any, any, DB> {
+        return this.addJoin('CROSS', table)
+    }
+
+    /**
+     * Adds an INNER JOIN clause on a subquery. The parameters of the subquery are numbered within the query.
+     * @param sub - The QueryBuilder instance representing the subquery.
+     * @param alias - The alias for the subquery.
+     * @param on - A callback receiving a ConditionBuilder for the ON clause, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
+     * @returns The current QueryBuilder instance.
+     */
+    joinSub<S>(
+        sub: QueryBuilder<any, S, any>,
+        alias: string,
+        on: JoinCondition,
+        foreignKey?: string
+    ): QueryBuilder<T & S, Widened<T, R, T & S>, DB> {
+        return this.addJoin('INNER', {query: sub, alias}, on, foreignKey) as any
+    }
+
+    /**
+     * Adds a LEFT JOIN clause on a subquery. The parameters of the subquery are numbered within the query.
+     * @param sub - The QueryBuilder instance representing the subquery.
+     * @param alias - The alias for the subquery.
+     * @param on - A callback receiving a ConditionBuilder for the ON clause, or the local key of an equality.
+     * @param foreignKey - The foreign key of the equality, when `on` is the local key.
+     * @returns The current QueryBuilder instance.
+     */
+    leftJoinSub<S>(
+        sub: QueryBuilder<any, S, any>,
+        alias: string,
+        on: JoinCondition,
+        foreignKey?: string
+    ): QueryBuilder<T & Nullable<S>, Widened<T, R, T & Nullable<S>>, DB> {
+        return this.addJoin('LEFT', {query: sub, alias}, on, foreignKey) as any
+    }
+
+    /**
+     * Adds an INNER JOIN LATERAL clause: a subquery that may reference the columns of the preceding tables,
+     * typically through whereColumn() or whereRaw().
+     * @param sub - The QueryBuilder instance representing the subquery.
+     * @param alias - The alias for the subquery.
+     * @param on - An optional callback receiving a ConditionBuilder for the ON clause. Defaults to ON TRUE.
+     * @returns The current QueryBuilder instance.
+     */
+    joinLateral<S>(
+        sub: QueryBuilder<any, S, any>,
+        alias: string,
+        on?: (on: ConditionBuilder) => void
+    ): QueryBuilder<T & S, Widened<T, R, T & S>, DB> {
+        return this.addJoin('INNER', {query: sub, alias}, on, undefined, true) as any
+    }
+
+    /**
+     * Adds a LEFT JOIN LATERAL clause: a subquery that may reference the columns of the preceding tables,
+     * typically through whereColumn() or whereRaw().
+     * @param sub - The QueryBuilder instance representing the subquery.
+     * @param alias - The alias for the subquery.
+     * @param on - An optional callback receiving a ConditionBuilder for the ON clause. Defaults to ON TRUE.
+     * @returns The current QueryBuilder instance.
+     */
+    leftJoinLateral<S>(
+        sub: QueryBuilder<any, S, any>,
+        alias: string,
+        on?: (on: ConditionBuilder) => void
+    ): QueryBuilder<T & Nullable<S>, Widened<T, R, T & Nullable<S>>, DB> {
+        return this.addJoin('LEFT', {query: sub, alias}, on, undefined, true) as any
+    }
+
+    /**
+     * Adds WHERE conditions based on an object. Keys are checked against the columns of T, and values against their types.
+     * @param obj - An object where keys are column names and values are the desired values, null, or operator objects,
+     * or a callback receiving a ConditionBuilder to add a group of conditions.
+     * @returns The current QueryBuilder instance.
+     */
+    where(obj: Where<T> | ((qb: ConditionBuilder) => void)) {
+        this.condition.where(obj)
+        return this
+    }
+
+    /**
+     * Adds WHERE conditions joined to the previous ones with OR. Several conditions are grouped together first,
+     * so `orWhere({a: 1, b: 2})` adds `OR (a = 1 AND b = 2)`.
+     * @param obj - An object of conditions, as accepted by where(), or a callback receiving a ConditionBuilder.
+     * @returns The current QueryBuilder instance.
+     */
+    orWhere(obj: Where<T> | ((qb: ConditionBuilder) => void)) {
+        this.condition.orWhere(obj)
+        return this
+    }
+
+    /**
+     * Adds negated WHERE conditions, e.g. `NOT (a = 1 AND b = 2)`.
+     * @param obj - An object of conditions, as accepted by where(), or a callback receiving a ConditionBuilder.
+     * @returns The current QueryBuilder instance.
+     */
+    whereNot(obj: Where<T> | ((qb: ConditionBuilder) => void)) {
+        this.condition.whereNot(obj)
+        return this
+    }
+
+    /**
+     * Requires a column to be null.
+     * @param column - The column.
+     * @returns The current QueryBuilder instance.
+     */
+    whereNull(column: Column<T> | Raw) {
+        this.condition.whereNull(column)
+        return this
+    }
+
+    /**
+     * Requires a column not to be null.
+     * @param column - The column.
+     * @returns The current QueryBuilder instance.
+     */
+    whereNotNull(column: Column<T> | Raw) {
+        this.condition.whereNotNull(column)
+        return this
+    }
+
+    /**
+     * Compares two columns, e.g. `whereColumn('orders.shipped_at', '>', 'orders.due_at')`.
+     * @param left - The left column.
+     * @param op - The comparison operator.
+     * @param right - The right column.
+     * @returns The current QueryBuilder instance.
+     * @throws Error if the operator is not a comparison operator.
+     */
+    whereColumn(left: Column<T> | Raw, op: ColumnOperator, right: Column<T> | Raw) {
+        this.condition.whereColumn(left, op, right)
+        return this
+    }
+
+    /**
+     * Requires a subquery to return at least one row. The subquery may reference the outer query with whereColumn().
+     * @param sub - The subquery.
      * @returns The current QueryBuilder instance.
      */
-    where(obj: WhereInput<T>) {
-        this.condition.where(obj as any)
+    whereExists(sub: QueryBuilder<any, any, any>) {
+        this.condition.whereExists(sub)
+        this.tables.push(...sub.tables)
+        return this
+    }
+
+    /**
+     * Requires a subquery to return no row. The subquery may reference the outer query with whereColumn().
+     * @param sub - The subquery.
+     * @returns The current QueryBuilder instance.
+     */
+    whereNotExists(sub: QueryBuilder<any, any, any>) {
+        this.condition.whereNotExists(sub)
+        this.tables.push(...sub.tables)
+        return this
+    }
+
+    /**
+     * Compares a column with the values returned by a subquery selecting a single column.
+     * @param column - The column.
+     * @param op - IN or NOT IN.
+     * @param sub - The subquery.
+     * @returns The current QueryBuilder instance.
+     * @throws Error if the operator is not IN or NOT IN.
+     */
+    whereSub(column: Column<T> | Raw, op: 'IN' | 'NOT IN', sub: QueryBuilder<any, any, any>) {
+        this.condition.whereSub(column, op, sub)
+        this.tables.push(...sub.tables)
         return this
     }
 
     /**
      * Adds a raw WHERE expression.
-     * @param expression - The raw SQL expression for the WHERE clause.
+     * @param expression - The raw SQL expression for the WHERE clause, or a sql fragment binding its values.
      * @returns The current QueryBuilder instance.
      */
-    whereRaw(expression: string) {
+    whereRaw(expression: string | Raw) {
         this.condition.raw(expression)
         return this
     }
@@ -181,15 +583,12 @@ export default class QueryBuilder<T = any> {
 
     /**
      * Specifies fields to group by.
-     * @param fields - A single field name or an array of field names.
+     * @param fields - A single field name or Raw expression, or an array of them.
      * @returns The current QueryBuilder instance.
      */
-    groupBy(fields: string | string[]) {
-        if (Array.isArray(fields)) {
-            this.groupByFields.push(...fields)
-        } else {
-            this.groupByFields.push(fields)
-        }
+    groupBy(fields: Column<T> | Raw | (Column<T> | Raw)[]) {
+        const normalized = Array.isArray(fields) ? fields : [fields]
+        this.groupByFields.push(...normalized)
         return this
     }
 
@@ -205,22 +604,29 @@ export default class QueryBuilder<T = any> {
 
     /**
      * Adds a raw HAVING expression.
-     * @param expr - The raw SQL expression for the HAVING clause.
+     * @param expr - The raw SQL expression for the HAVING clause, or a sql fragment binding its values.
      * @returns The current QueryBuilder instance.
      */
-    havingRaw(expr: string) {
+    havingRaw(expr: string | Raw) {
         this.havingCondition.raw(expr)
         return this
     }
 
     /**
      * Specifies the order by clause.
-     * @param column - The column to order by.
+     * @param column - The column, selected alias or Raw expression to order by.
      * @param direction - The order direction ('ASC' or 'DESC'). Defaults to 'ASC'.
      * @returns The current QueryBuilder instance.
+     * @throws Error if the direction is not ASC or DESC.
      */
-    orderBy(column: string, direction: 'ASC' | 'DESC' = 'ASC') {
-        this.orderByFields.push(`${column} ${direction}`)
+    orderBy(column: Column<T> | (keyof R & string) | Raw, direction: 'ASC' | 'DESC' = 'ASC') {
+        const normalized = String(direction).toUpperCase()
+
+        if (normalized !== 'ASC' && normalized !== 'DESC') {
+            throw new Error(`Invalid order direction ${direction}`)
+        }
+
+        this.orderByFields.push({column, direction: normalized})
         return this
     }
 
@@ -251,118 +657,581 @@ export default class QueryBuilder<T = any> {
      * @param recursive - Whether the CTE is recursive. Defaults to false.
      * @returns The current QueryBuilder instance.
      */
-    with(name: string, subQuery: QueryBuilder<any>, recursive = false) {
+    with(name: string, subQuery: QueryBuilder<any, any, any>, recursive = false) {
         this.ctes.push({name, query: subQuery, recursive})
+        this.tables.push(...subQuery.tables)
         return this
     }
 
     /**
-     * Sets the FROM clause to a subquery.
+     * Combines the results of this query with the results of other queries, removing duplicate rows.
+     * @param queries - The queries to combine, selecting the same number of columns with compatible types.
+     * @returns The current QueryBuilder instance.
+     */
+    union(...queries: QueryBuilder<any, any, any>[]) {
+        return this.addSetOperation('UNION', queries)
+    }
+
+    /**
+     * Combines the results of this query with the results of other queries, keeping duplicate rows.
+     * @param queries - The queries to combine, selecting the same number of columns with compatible types.
+     * @returns The current QueryBuilder instance.
+     */
+    unionAll(...queries: QueryBuilder<any, any, any>[]) {
+        return this.addSetOperation('UNION ALL', queries)
+    }
+
+    /**
+     * Keeps the rows that the other queries also return.
+     * @param queries - The queries to intersect with, selecting the same number of columns with compatible types.
+     * @returns The current QueryBuilder instance.
+     */
+    intersect(...queries: QueryBuilder<any, any, any>[]) {
+        return this.addSetOperation('INTERSECT', queries)
+    }
+
+    /**
+     * Removes the rows that the other queries return.
+     * @param queries - The queries whose rows to remove, selecting the same number of columns with compatible types.
+     * @returns The current QueryBuilder instance.
+     */
+    except(...queries: QueryBuilder<any, any, any>[]) {
+        return this.addSetOperation('EXCEPT', queries)
+    }
+
+    /**
+     * Adds set operations combining other queries with this one.
+     * The other queries are captured as they are now; later changes to them do not affect this query.
+     * @param operator - The set operator.
+     * @param queries - The queries to combine.
+     * @returns The current QueryBuilder instance.
+     */
+    private addSetOperation(operator: SetOperator, queries: QueryBuilder<any, any, any>[]) {
+        queries.forEach(query => {
+            this.setOperations.push({operator, query: query.toNode()})
+            this.tables.push(...query.tables)
+        })
+
+        return this
+    }
+
+    /**
+     * Sets the FROM clause to a subquery. The columns available to the query become the result columns of the subquery.
      * @param sub - The QueryBuilder instance representing the subquery.
      * @param alias - The alias for the subquery.
+     * @returns The current builder, typed with the columns of the subquery.
+     */
+    fromSubquery<S>(sub: QueryBuilder<any, S, any>, alias: string): QueryBuilder<S, S, DB> {
+        this.fromClause = {kind: 'subquery', query: sub.toNode(), alias}
+        this.tables = [...sub.tables]
+        return this as any
+    }
+
+    /**
+     * Caches the result of this query.
+     * @param ttl - Time-to-live of the cached result, in milliseconds.
+     * @returns The current QueryBuilder instance.
+     */
+    cache(ttl: number) {
+        this.cacheTTL = ttl
+        return this
+    }
+
+    /**
+     * Disables caching for this query, overriding the database default.
+     * @returns The current QueryBuilder instance.
+     */
+    noCache() {
+        this.cacheTTL = 0
+        return this
+    }
+
+    /**
+     * Reads from the primary instead of a replica, e.g. to read rows just written by another process.
      * @returns The current QueryBuilder instance.
      */
-    fromSubquery(sub: QueryBuilder<any>, alias: string) {
-        const {query, params} = sub.build()
-        params.forEach(p => this.ctx.add(p))
-        this.fromClause = `(${query}) AS ${alias}`
+    onPrimary() {
+        this.executor = this.executor.onPrimary()
         return this
     }
 
+    /**
+     * Creates an INSERT builder for the current table.
+     * @param rows - A single row or an array of rows to insert.
+     * @returns An InsertQueryBuilder instance.
+     */
+    insert(rows: Partial<T> | Partial<T>[]) {
+        return new InsertQueryBuilder<T>(
+            this.table,
+            this.executor,
+            this.dialect,
+            rows
+        )
+    }
+
+    /**
+     * Creates an UPDATE builder for the current table, keeping the WHERE conditions added so far.
+     * @param data - The columns to set and their new values.
+     * @returns An UpdateQueryBuilder instance.
+     */
+    update(data: Partial<T>) {
+        return new UpdateQueryBuilder<T>(
+            this.table,
+            this.executor,
+            this.dialect,
+            this.condition.clone(),
+            data
+        )
+    }
+
+    /**
+     * Creates a DELETE builder for the current table, keeping the WHERE conditions added so far.
+     * @returns A DeleteQueryBuilder instance.
+     */
+    delete() {
+        return new DeleteQueryBuilder<T>(
+            this.table,
+            this.executor,
+            this.dialect,
+            this.condition.clone()
+        )
+    }
+
     /**
      * Creates a clone of the current QueryBuilder instance.
      * @returns A new QueryBuilder instance with the same state.
      */
-    clone(): QueryBuilder<T> {
-        const qb = new QueryBuilder<T>(
-            this.fromClause,
+    clone(): QueryBuilder<T, R, DB> {
+        const qb = new QueryBuilder<T, R, DB>(
+            this.table,
             this.executor,
             this.dialect,
             this.cacheTTL
         )
 
+        qb.fromClause = this.fromClause
         qb.fields = [...this.fields]
+        qb.distinctRows = this.distinctRows
+        qb.distinctOnFields = [...this.distinctOnFields]
         qb.joins = [...this.joins]
         qb.groupByFields = [...this.groupByFields]
         qb.orderByFields = [...this.orderByFields]
+        qb.windows = [...this.windows]
+        qb.setOperations = [...this.setOperations]
         qb.limitCount = this.limitCount
         qb.offsetCount = this.offsetCount
         qb.ctes = [...this.ctes]
+        qb.tables = [...this.tables]
 
         qb.condition = this.condition.clone()
         qb.havingCondition = this.havingCondition.clone()
-        qb.ctx = this.ctx.clone()
 
         return qb
     }
 
     /**
-     * Builds the SQL query string and its parameters without executing it.
-     * @returns An object containing the SQL query string and an array of parameters.
+     * Streams the rows of the query through a server-side cursor instead of loading them all in memory.
+     * Rows are fetched in batches as the consumer iterates, and the cursor is cleaned up when the loop ends,
+     * throws or breaks early. Inside a transaction, the cursor uses the transaction client.
+     * @param options - The number of rows fetched at a time. Defaults to 1000.
+     * @returns An async iterator over the rows.
      */
-    build() {
-        let query = ''
+    stream(options: { batchSize?: number } = {}): AsyncGenerator<R, void, undefined> {
+        const {query, params} = this.build()
 
-        if (this.ctes.length) {
-            const recursive = this.ctes.some(c => c.recursive)
-            query += `WITH ${recursive ? 'RECURSIVE ' : ''}`
+        return this.executor.stream(query, params, options.batchSize)
+    }
 
-            const parts = this.ctes.map(cte => {
-                const {query: q, params} = cte.query.build()
-                params.forEach(p => this.ctx.add(p))
-                return `${cte.name} AS (${q})`
-            })
+    /**
+     * Fetches a page of results, along with the total number of matching rows.
+     * The total is counted by a copy of the query without its ORDER BY, LIMIT and OFFSET.
+     * @param options - The page number, starting at 1, and the number of rows per page. Default to page 1 of 15 rows.
+     * @returns A Promise that resolves to the page.
+     * @throws Error if the page or the number of rows per page is not a positive integer.
+     */
+    async paginate(options: { page?: number, perPage?: number } = {}): Promise<Paginated<R>> {
+        const {page = 1, perPage = 15} = options
 
-            query += parts.join(', ') + ' '
+        if (!Number.isInteger(page) || page < 1) {
+            throw new Error(`Page expects a positive integer, got ${page}`)
         }
 
-        const select = this.fields.length ? this.fields.join(', ') : '*'
+        if (!Number.isInteger(perPage) || perPage < 1) {
+            throw new Error(`Per page expects a positive integer, got ${perPage}`)
+        }
+
+        const counted = this.clone()
+        counted.limitCount = undefined
+        counted.offsetCount = undefined
 
-        query += `SELECT ${select} FROM ${this.fromClause}`
+        const [data, total] = await Promise.all([
+            this.clone().limit(perPage).offset((page - 1) * perPage).execute(),
+            counted.count()
+        ])
 
-        if (this.joins.length) {
-            query += ' ' + this.joins.join(' ')
+        return {
+            data,
+            total,
+            page,
+            perPage,
+            lastPage: Math.max(1, Math.ceil(total / perPage))
         }
+    }
 
-        const where = this.condition.build()
-        if (where) query += ' ' + where
+    /**
+     * Fetches a page of results following a cursor, filtering on the ORDER BY columns instead of skipping rows.
+     * The ORDER BY columns must be plain column references, not null, and together identify a row uniquely,
+     * for instance by ending with the primary key.
+     * @param options - The cursor returned with the previous page, if any, and the number of rows per page (defaults to 15).
+     * @returns A Promise that resolves to the page and the cursor of the next page.
+     * @throws Error if the query has no ORDER BY column, orders by a raw expression, or the cursor is invalid.
+     */
+    async cursorPaginate(options: { after?: string | null, limit?: number } = {}): Promise<CursorPage<R>> {
+        const {after, limit = 15} = options
 
-        if (this.groupByFields.length) {
-            query += ` GROUP BY ${this.groupByFields.join(', ')}`
+        if (!Number.isInteger(limit) || limit < 1) {
+            throw new Error(`Limit expects a positive integer, got ${limit}`)
         }
 
-        const having = this.havingCondition.build('HAVING')
-        if (having) query += ' ' + having
+        if (!this.orderByFields.length) {
+            throw new Error('Cursor pagination requires at least one orderBy() column')
+        }
+
+        const order = this.orderByFields.map(({column, direction}) => {
+            if (column instanceof Raw) {
+                throw new Error('Cursor pagination cannot order by a raw expression')
+            }
+
+            return {column, direction, key: columnKey(column)}
+        })
+
+        const qb = this.combined()
+        qb.offsetCount = undefined
+
+        if (after) {
+            const values = decodeCursor(after, order.length)
 
-        if (this.orderByFields.length) {
-            query += ` ORDER BY ${this.orderByFields.join(', ')}`
+            // The filters of the query are grouped, so the cursor also applies to their OR branches.
+            qb.condition = qb.condition.grouped()
+
+            // (a > x) OR (a = x AND b > y) OR ..., with < for descending columns
+            qb.andGroup(group => {
+                order.forEach((current, index) => {
+                    group.orGroup(branch => {
+                        order.slice(0, index).forEach((previous, i) => {
+                            branch.where({[previous.column]: values[i]})
+                        })
+
+                        branch.where({
+                            [current.column]: {op: current.direction === 'ASC' ? '>' : '<', value: values[index]}
+                        })
+                    })
+                })
+            })
         }
 
-        if (this.limitCount) {
-            query += ` LIMIT ${this.limitCount}`
+        const rows = await qb.limit(limit + 1).execute()
+        const hasMore = rows.length > limit
+        const data = rows.slice(0, limit)
+        const last = data[data.length - 1] as Record<string, any> | undefined
+
+        return {
+            data,
+            hasMore,
+            nextCursor: hasMore && last
+                ? encodeCursor(order.map(({key}) => last[key]))
+                : null
         }
+    }
 
-        if (this.offsetCount) {
-            query += ` OFFSET ${this.offsetCount}`
+    /**
+     * Executes the query and returns the first row.
+     * @returns A Promise that resolves to the first row, or null if there is none.
+     */
+    async first(): Promise<R | null> {
+        const rows = await this.clone().limit(1).execute()
+        return rows[0] ?? null
+    }
+
+    /**
+     * Executes the query and returns the first row, failing when there is none.
+     * @returns A Promise that resolves to the first row.
+     * @throws Error if no row matches the query.
+     */
+    async firstOrFail(): Promise<R> {
+        const row = await this.first()
+
+        if (row === null) {
+            throw new Error(`No row found in ${this.table}`)
         }
 
+        return row
+    }
+
+    /**
+     * Checks whether at least one row matches the query.
+     * @returns A Promise that resolves to true if a row matches.
+     */
+    async exists(): Promise<boolean> {
+        const qb = this.combined().select(raw('1')).limit(1)
+        qb.orderByFields = []
+
+        const rows = await qb.execute()
+        return rows.length > 0
+    }
+
+    /**
+     * Returns the values of a single column of the matching rows.
+     * @param column - The column to read.
+     * @returns A Promise that resolves to the values, in the order of the rows.
+     */
+    async pluck<K extends keyof T & string>(column: K): Promise<T[K][]>
+    async pluck(column: Column<T>): Promise<any[]>
+    async pluck(column: string): Promise<any[]> {
+        const key = columnKey(column)
+        const qb: QueryBuilder<any> = this.combined()
+        const rows = await qb.select(this.setOperations.length ? key : column).execute()
+
+        return rows.map(row => row[key])
+    }
+
+    /**
+     * Returns the value of a single column of the first matching row.
+     * @param column - The column to read.
+     * @returns A Promise that resolves to the value, or null if no row matches.
+     */
+    async value<K extends keyof T & string>(column: K): Promise<T[K] | null>
+    async value(column: Column<T>): Promise<any>
+    async value(column: string): Promise<any> {
+        const key = columnKey(column)
+        const qb: QueryBuilder<any> = this.combined()
+        const rows = await qb.select(this.setOperations.length ? key : column).limit(1).execute()
+
+        return rows.length ? rows[0][key] : null
+    }
+
+    /**
+     * Counts the matching rows, or the matching rows where a column is not null.
+     * @param column - The column to count. Defaults to every row.
+     * @returns A Promise that resolves to the number of rows.
+     */
+    async count(column?: Column<T>): Promise<number> {
+        return Number(await this.aggregate('COUNT', column) ?? 0)
+    }
+
+    /**
+     * Sums a column over the matching rows.
+     * @param column - The column to sum.
+     * @returns A Promise that resolves to the sum, or null if no row matches.
+     */
+    async sum(column: Column<T>): Promise<number | null> {
+        return this.aggregate('SUM', column)
+    }
+
+    /**
+     * Averages a column over the matching rows.
+     * @param column - The column to average.
+     * @returns A Promise that resolves to the average, or null if no row matches.
+     */
+    async avg(column: Column<T>): Promise<number | null> {
+        return this.aggregate('AVG', column)
+    }
+
+    /**
+     * Returns the smallest value of a column over the matching rows.
+     * @param column - The column to read.
+     * @returns A Promise that resolves to the smallest value, or null if no row matches.
+     */
+    async min<K extends keyof T & string>(column: K): Promise<T[K] | null>
+    async min(column: Column<T>): Promise<any>
+    async min(column: string): Promise<any> {
+        return this.aggregate('MIN', column, false)
+    }
+
+    /**
+     * Returns the largest value of a column over the matching rows.
+     * @param column - The column to read.
+     * @returns A Promise that resolves to the largest value, or null if no row matches.
+     */
+    async max<K extends keyof T & string>(column: K): Promise<T[K] | null>
+    async max(column: Column<T>): Promise<any>
+    async max(column: string): Promise<any> {
+        return this.aggregate('MAX', column, false)
+    }
+
+    /**
+     * Returns a copy of the query whose fields and conditions can be changed without affecting a set operation.
+     * A query combined with others is wrapped as a subquery, its ORDER BY, LIMIT and OFFSET moving to the outer query.
+     * @returns The copy of the query.
+     */
+    private combined(): QueryBuilder<any, R, DB> {
+        const source = this.clone()
+
+        if (!source.setOperations.length) {
+            return source
+        }
+
+        const qb = new QueryBuilder<T, R, DB>(this.table, this.executor, this.dialect, this.cacheTTL)
+        qb.orderByFields = source.orderByFields
+        qb.limitCount = source.limitCount
+        qb.offsetCount = source.offsetCount
+
+        source.orderByFields = []
+        source.limitCount = undefined
+        source.offsetCount = undefined
+
+        return qb.fromSubquery(source, 'combined')
+    }
+
+    /**
+     * Computes an aggregate over the matching rows.
+     * The ORDER BY is dropped, unless the query is limited; grouped, distinct or limited queries are aggregated as a subquery,
+     * so the aggregate covers their rows.
+     * @param fn - The aggregate function.
+     * @param column - The column to aggregate, or undefined for every row.
+     * @param coerce - Whether to convert bigint and numeric results, returned as strings by PostgreSQL, into numbers.
+     * @returns A Promise that resolves to the aggregate value.
+     */
+    private async aggregate(
+        fn: 'COUNT' | 'SUM' | 'AVG' | 'MIN' | 'MAX',
+        column?: string,
+        coerce = true
+    ): Promise<any> {
+        const source = this.clone()
+        let qb: QueryBuilder<any> = source
+        let target = column
+
+        const wrap = source.groupByFields.length
+            || source.distinctRows
+            || source.distinctOnFields.length
+            || source.setOperations.length
+            || source.limitCount !== undefined
+            || source.offsetCount !== undefined
+
+        if (wrap) {
+            qb = new QueryBuilder(this.table, this.executor, this.dialect, this.cacheTTL)
+                .fromSubquery(source, 'aggregated')
+            target = column === undefined ? undefined : columnKey(column)
+        } else {
+            source.orderByFields = []
+        }
+
+        const expression = target === undefined ? '*' : quoteIdentifier(this.dialect, target)
+        const {query, params} = qb.select(raw(`${fn}(${expression}) AS aggregate`)).build()
+
+        const result = await this.executor.execute(query, params, this.cacheTTL, [...new Set(qb.tables)], 'read')
+        const value = result.rows[0]?.aggregate ?? null
+
+        return coerce ? toNumber(value) : value
+    }
+
+    /**
+     * Returns the query as a SELECT node, to be compiled by a dialect or embedded in another query.
+     * @returns The SELECT node.
+     */
+    toNode(): SelectNode {
         return {
-            query,
-            params: this.ctx.getParams()
+            type: 'select',
+            ctes: this.ctes.map(cte => ({
+                name: cte.name,
+                query: cte.query.toNode(),
+                recursive: Boolean(cte.recursive)
+            })),
+            distinct: this.distinctRows,
+            distinctOn: [...this.distinctOnFields],
+            fields: [...this.fields],
+            from: this.fromClause,
+            joins: [...this.joins],
+            where: this.condition.toNodes(),
+            groupBy: [...this.groupByFields],
+            having: this.havingCondition.toNodes(),
+            windows: [...this.windows],
+            setOperations: [...this.setOperations],
+            orderBy: [...this.orderByFields],
+            limit: this.limitCount,
+            offset: this.offsetCount
         }
     }
 
+    /**
+     * Builds the SQL query string and its parameters without executing it.
+     * @returns An object containing the SQL query string and an array of parameters.
+     * @throws Error if the query uses a feature the dialect does not support.
+     */
+    build() {
+        return this.dialect.compile(this.toNode())
+    }
+
     /**
      * Executes the built SQL query and returns the results.
-     * @returns A Promise that resolves to an array of results of type T.
+     * With read replicas, the query runs on the next replica, unless it is marked with onPrimary()
+     * or follows a write within the sticky-primary window.
+     * @returns A Promise that resolves to an array of results of type R.
      */
-    async execute(): Promise<T[]> {
+    async execute(): Promise<R[]> {
         const {query, params} = this.build()
         const result = await this.executor.execute(
             query,
             params,
-            this.cacheTTL
+            this.cacheTTL,
+            [...new Set(this.tables)],
+            'read'
         )
         return result.rows
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Returns the property holding the value of a column in the result rows: the last segment of the reference, unquoted.
+ * @param column - The column reference, e.g. `users.created_at`.
+ * @returns The property name.
+ */
+function columnKey(column: string): string {
+    const segment = column.match(/("(?:[^"]|"")*"|`(?:[^`]|``)*`|[^.]+)$/)?.[1] ?? column
+
+    if (segment.startsWith('"')) return segment.slice(1, -1).replace(/""/g, '"')
+    if (segment.startsWith('`')) return segment.slice(1, -1).replace(/``/g, '`')
+
+    return segment
+}
+
+/**
+ * Converts an aggregate returned as a string, as PostgreSQL does for bigint and numeric results, into a number.
+ * @param value - The aggregate value.
+ * @returns The number, or null for a null aggregate.
+ */
+function toNumber(value: any): number | null {
+    return value === null || value === undefined ? null : Number(value)
+}
+
+/**
+ * Encodes the ORDER BY values of a row into an opaque cursor.
+ * @param values - The values of the ORDER BY columns.
+ * @returns The cursor.
+ */
+function encodeCursor(values: any[]): string {
+    return Buffer.from(JSON.stringify(values)).toString('base64url')
+}
+
+/**
+ * Decodes a cursor into the ORDER BY values it holds.
+ * @param cursor - The cursor returned with a previous page.
+ * @param length - The number of ORDER BY columns.
+ * @returns The values.
+ * @throws Error if the cursor is invalid or does not match the ORDER BY columns.
+ */
+function decodeCursor(cursor: string, length: number): any[] {
+    let values: unknown
+
+    try {
+        values = JSON.parse(Buffer.from(cursor, 'base64url').toString())
+    } catch {
+        throw new Error('Invalid pagination cursor')
+    }
+
+    if (!Array.isArray(values) || values.length !== length) {
+        throw new Error('Invalid pagination cursor')
+    }
+
+    return values
+}
@@ -0,0 +1,200 @@
+import Raw from './Raw'
+
+/**
+ * A reference to a table or column, quoted by the dialect, or a Raw fragment inserted as-is.
+ */
+export type Identifier = string | Raw
+
+export type Operator =
+    | '='
+    | '>'
+    | '<'
+    | '>='
+    | '<='
+    | '!='
+    | '<>'
+    | 'LIKE'
+    | 'ILIKE'
+    | 'IN'
+    | 'NOT IN'
+    | 'BETWEEN'
+    | 'EXISTS'
+    | 'IS DISTINCT FROM'
+    | 'IS NOT DISTINCT FROM'
+    | 'ANY'
+    | '&&'
+    | '@>'
+    | '<@'
+    | '?'
+    | '?|'
+    | '?&'
+    | '->'
+    | '->>'
+
+/**
+ * The operators extracting a value from a JSON document: `->` returns JSON, `->>` returns text.
+ */
+export type PathOperator = '->' | '->>'
+
+/**
+ * The operators comparing two columns.
+ */
+export type ColumnOperator = '=' | '>' | '<' | '>=' | '<=' | '!=' | '<>'
+
+export type ConditionNode =
+    | { kind: 'compare', column: Identifier, op: Operator, value: any }
+    | { kind: 'column', left: Identifier, op: ColumnOperator, right: Identifier }
+    | { kind: 'path', column: Identifier, op: PathOperator, path: (string | number)[], compare: ColumnOperator, value: any }
+    | { kind: 'null', column: Identifier }
+    | { kind: 'exists', query: SelectNode }
+    | { kind: 'subquery', column: Identifier, op: 'IN' | 'NOT IN', query: SelectNode }
+    | { kind: 'not', condition: ConditionNode }
+    | { kind: 'raw', sql: Raw }
+    | { kind: 'group', conditions: ConditionEntry[] }
+
+/**
+ * A condition and the logical operator joining it to the previous one.
+ */
+export type ConditionEntry = {
+    type: 'AND' | 'OR'
+    node: ConditionNode
+}
+
+export type JoinType = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS'
+
+export type FromNode =
+    | { kind: 'table', table: Identifier }
+    | { kind: 'subquery', query: SelectNode, alias: string }
+
+export interface JoinNode {
+    type: JoinType
+    /**
+     * Whether the joined subquery may reference the columns of the preceding FROM items.
+     */
+    lateral: boolean
+    source: FromNode
+    /**
+     * The ON conditions. A join without conditions other than CROSS is compiled with ON TRUE.
+     */
+    on: ConditionEntry[]
+}
+
+export interface CteNode {
+    name: string
+    query: SelectNode
+    recursive: boolean
+}
+
+export interface OrderNode {
+    column: Identifier
+    direction: 'ASC' | 'DESC'
+}
+
+/**
+ * The window of a window function: an optional named window it extends, partitions, ordering and frame.
+ */
+export interface WindowSpecNode {
+    base?: string
+    partitionBy: Identifier[]
+    orderBy: OrderNode[]
+    /**
+     * The frame clause, e.g. `ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW`, inserted as-is.
+     */
+    frame?: string
+}
+
+/**
+ * A window function call, over an inline window or a named window of the WINDOW clause.
+ */
+export interface WindowFieldNode {
+    kind: 'window'
+    fn: Raw
+    over: WindowSpecNode | string
+    alias?: string
+}
+
+/**
+ * A selected field: a column reference, a Raw expression or a window function call.
+ */
+export type FieldNode = Identifier | WindowFieldNode
+
+export type SetOperator = 'UNION' | 'UNION ALL' | 'INTERSECT' | 'EXCEPT'
+
+/**
+ * A query combined with the query it belongs to by a set operation.
+ */
+export interface SetOperationNode {
+    operator: SetOperator
+    query: SelectNode
+}
+
+export interface SelectNode {
+    type: 'select'
+    ctes: CteNode[]
+    distinct: boolean
+    /**
+     * The DISTINCT ON expressions. Takes precedence over `distinct` when not empty.
+     */
+    distinctOn: Identifier[]
+    fields: FieldNode[]
+    from: FromNode
+    joins: JoinNode[]
+    where: ConditionEntry[]
+    groupBy: Identifier[]
+    having: ConditionEntry[]
+    windows: { name: string, spec: WindowSpecNode }[]
+    /**
+     * The queries combined with this one, in order. When not empty, the ORDER BY, LIMIT and OFFSET
+     * apply to the combined result.
+     */
+    setOperations: SetOperationNode[]
+    orderBy: OrderNode[]
+    limit?: number
+    offset?: number
+}
+
+/**
+ * A column assignment of a SET clause. `excluded` references the value proposed for insertion in an upsert.
+ */
+export type AssignmentNode =
+    | { column: string, value: any }
+    | { column: string, excluded: string }
+
+export interface ConflictNode {
+    target?: string[] | { constraint: string }
+    action: 'NOTHING' | 'UPDATE'
+    set: AssignmentNode[]
+    where: ConditionEntry[]
+}
+
+export interface InsertNode {
+    type: 'insert'
+    table: string
+    columns: string[]
+    /**
+     * The rows to insert. A column missing from a row, or set to undefined, takes its DEFAULT value.
+     */
+    rows: Record<string, any>[]
+    conflict?: ConflictNode
+    returning: string[]
+}
+
+export interface UpdateNode {
+    type: 'update'
+    table: string
+    set: AssignmentNode[]
+    where: ConditionEntry[]
+    returning: string[]
+}
+
+export interface DeleteNode {
+    type: 'delete'
+    table: string
+    where: ConditionEntry[]
+    returning: string[]
+}
+
+/**
+ * The abstract syntax tree of a statement, compiled into SQL by a Dialect.
+ */
+export type QueryNode = SelectNode | InsertNode | UpdateNode | DeleteNode
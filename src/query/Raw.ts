@@ -0,0 +1,55 @@
+/**
+ * A raw SQL fragment, inserted into the query as-is instead of being quoted as an identifier.
+ * Fragments built with the sql tag also carry values, bound as parameters when the query is compiled.
+ * Never build the text of a Raw from untrusted input.
+ */
+export default class Raw {
+    /**
+     * The text pieces of the fragment, around its values.
+     */
+    readonly strings: readonly string[]
+
+    /**
+     * Creates an instance of Raw.
+     * @param sql - The SQL fragment, or its text pieces around the values.
+     * @param values - The values between the text pieces: values to bind, nested Raw fragments or SqlIdentifier references.
+     * @throws Error if there is not exactly one more text piece than values.
+     */
+    constructor(sql: string | readonly string[], public readonly values: readonly unknown[] = []) {
+        this.strings = typeof sql === 'string' ? [sql] : [...sql]
+
+        if (this.strings.length !== this.values.length + 1) {
+            throw new Error('A SQL fragment needs exactly one more text piece than values')
+        }
+    }
+
+    /**
+     * The SQL text of a fragment without values.
+     * @throws Error if the fragment has values, which only a dialect can bind.
+     */
+    get sql(): string {
+        if (this.values.length) {
+            throw new Error('The SQL fragment has values to bind, compile it with a dialect')
+        }
+
+        return this.strings[0]
+    }
+
+    /**
+     * Returns the SQL fragment.
+     * @returns The SQL fragment.
+     * @throws Error if the fragment has values to bind.
+     */
+    toString() {
+        return this.sql
+    }
+}
+
+/**
+ * Marks a SQL fragment as raw, so the builders insert it as-is.
+ * @param sql - The SQL fragment.
+ * @returns A Raw instance.
+ */
+export function raw(sql: string) {
+    return new Raw(sql)
+}
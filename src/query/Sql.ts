@@ -0,0 +1,50 @@
+import Raw from './Raw'
+
+/**
+ * A table or column reference inside a sql fragment, quoted by the dialect when the query is compiled.
+ */
+export default class SqlIdentifier {
+    /**
+     * Creates an instance of SqlIdentifier.
+     * @param name - The identifier reference, e.g. `email` or `users.email`.
+     */
+    constructor(public readonly name: string) {
+    }
+}
+
+/**
+ * Builds a SQL fragment from a template literal. Interpolated values are bound as parameters of the query
+ * the fragment is used in; interpolated Raw fragments are inserted in place, and sql.id() references are quoted.
+ * The fragment is accepted anywhere the builders take raw SQL.
+ * @param strings - The text pieces of the template.
+ * @param values - The interpolated values.
+ * @returns A Raw instance.
+ * @example
+ * db.table('users').whereRaw(sql`lower(${sql.id('email')}) = ${email}`)
+ */
+export function sql(strings: TemplateStringsArray, ...values: unknown[]): Raw {
+    return new Raw(strings, values)
+}
+
+/**
+ * Builds an identifier reference, quoted by the dialect, to interpolate into a sql fragment.
+ * @param name - The identifier reference, e.g. `email` or `users.email`.
+ * @returns A SqlIdentifier instance.
+ */
+sql.id = function (name: string): SqlIdentifier {
+    return new SqlIdentifier(name)
+}
+
+/**
+ * Joins values into a single fragment, e.g. a list of values to bind or a list of nested fragments.
+ * @param values - The values, Raw fragments or SqlIdentifier references to join.
+ * @param separator - The SQL text between the values. Defaults to `, `.
+ * @returns A Raw instance.
+ */
+sql.join = function (values: unknown[], separator = ', '): Raw {
+    const strings = values.length
+        ? ['', ...values.slice(1).map(() => separator), '']
+        : ['']
+
+    return new Raw(strings, values)
+}
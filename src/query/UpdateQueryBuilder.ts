@@ -0,0 +1,138 @@
+import ConditionBuilder from './ConditionBuilder'
+import Raw from './Raw'
+import QueryExecutor from '../core/QueryExecutor'
+import {Dialect} from '../dialects/Dialect'
+import {tableTag} from '../cache/CacheStore'
+import {AssignmentNode, UpdateNode} from './QueryNode'
+
+/**
+ * A fluent builder for UPDATE statements with WHERE and RETURNING support.
+ * An UPDATE without conditions is refused unless allowFullTable() is called.
+ * @template T The type of the rows stored in the table.
+ * @template R The type of the rows returned by the RETURNING clause.
+ */
+export default class UpdateQueryBuilder<T = any, R = T> {
+    /**
+     * The assignments of the SET clause.
+     */
+    private assignments: AssignmentNode[] = []
+    /**
+     * The fields returned by the RETURNING clause.
+     */
+    private returningFields: string[] = []
+    /**
+     * Whether the update may run without a WHERE clause.
+     */
+    private fullTable = false
+
+    /**
+     * Creates an instance of UpdateQueryBuilder.
+     * @param table - The name of the table to update.
+     * @param executor - The query executor to use.
+     * @param dialect - The database dialect to use.
+     * @param condition - The condition builder for the WHERE clause.
+     * @param data - The columns to set and their new values.
+     */
+    constructor(
+        private table: string,
+        private executor: QueryExecutor,
+        private dialect: Dialect,
+        private condition: ConditionBuilder,
+        data: Partial<T>
+    ) {
+        Object.entries(data as Record<string, any>).forEach(([column, value]) => {
+            if (value === undefined) return
+            this.assignments.push({column, value})
+        })
+
+        if (!this.assignments.length) {
+            throw new Error('UPDATE expects at least one column')
+        }
+    }
+
+    /**
+     * Adds WHERE conditions based on an object or a callback.
+     * @param obj - An object where keys are column names and values are the desired values, or a callback receiving a ConditionBuilder.
+     * @returns The current UpdateQueryBuilder instance.
+     */
+    where(obj: Partial<T> | Record<string, any> | ((qb: ConditionBuilder) => void)) {
+        this.condition.where(obj as any)
+        return this
+    }
+
+    /**
+     * Adds a raw WHERE expression.
+     * @param expression - The raw SQL expression for the WHERE clause, or a sql fragment binding its values.
+     * @returns The current UpdateQueryBuilder instance.
+     */
+    whereRaw(expression: string | Raw) {
+        this.condition.raw(expression)
+        return this
+    }
+
+    /**
+     * Allows the update to run without a WHERE clause, affecting every row of the table.
+     * @returns The current UpdateQueryBuilder instance.
+     */
+    allowFullTable() {
+        this.fullTable = true
+        return this
+    }
+
+    /**
+     * Specifies the fields to return from the updated rows.
+     * @param fields - An array of field names, a single field name, or '*' for every column.
+     * @returns The current builder, typed with the returned fields.
+     */
+    returning(fields: '*'): UpdateQueryBuilder<T, T>
+    returning<K extends keyof T>(fields: K[] | K): UpdateQueryBuilder<T, Pick<T, K>>
+    returning(fields: any): UpdateQueryBuilder<T, any> {
+        const normalized = Array.isArray(fields) ? fields : [fields]
+        this.returningFields = normalized.map(String)
+        return this
+    }
+
+    /**
+     * Returns the statement as an UPDATE node, to be compiled by a dialect.
+     * @returns The UPDATE node.
+     * @throws Error if there is no WHERE clause and allowFullTable() was not called.
+     */
+    toNode(): UpdateNode {
+        const where = this.condition.toNodes()
+
+        if (!where.length && !this.fullTable) {
+            throw new Error(
+                'UPDATE without a WHERE clause is not allowed, call allowFullTable() to update every row'
+            )
+        }
+
+        return {
+            type: 'update',
+            table: this.table,
+            set: [...this.assignments],
+            where,
+            returning: [...this.returningFields]
+        }
+    }
+
+    /**
+     * Builds the SQL query string and its parameters without executing it.
+     * @returns An object containing the SQL query string and an array of parameters.
+     * @throws Error if there is no WHERE clause and allowFullTable() was not called.
+     */
+    build() {
+        return this.dialect.compile(this.toNode())
+    }
+
+    /**
+     * Executes the UPDATE and returns the rows produced by the RETURNING clause.
+     * Evicts the cached reads of the table.
+     * @returns A Promise that resolves to the returned rows, or an empty array without RETURNING.
+     */
+    async execute(): Promise<R[]> {
+        const {query, params} = this.build()
+        const result = await this.executor.execute(query, params)
+        await this.executor.invalidate([tableTag(this.table)])
+        return result.rows
+    }
+}
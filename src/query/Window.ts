@@ -0,0 +1,140 @@
+import Raw from './Raw'
+import {Identifier, OrderNode, WindowFieldNode, WindowSpecNode} from './QueryNode'
+
+/**
+ * Builds the definition of a window: its partitions, ordering and frame.
+ */
+export class WindowSpec {
+    private partitions: Identifier[] = []
+    private order: OrderNode[] = []
+    private frameClause?: string
+    private baseWindow?: string
+
+    /**
+     * Builds on a window of the WINDOW clause, which then must not have a frame.
+     * @param name - The name of the window to extend.
+     * @returns The current WindowSpec instance.
+     */
+    extend(name: string) {
+        this.baseWindow = name
+        return this
+    }
+
+    /**
+     * Adds PARTITION BY expressions.
+     * @param fields - A single field name or Raw expression, or an array of them.
+     * @returns The current WindowSpec instance.
+     */
+    partitionBy(fields: string | Raw | (string | Raw)[]) {
+        const normalized = Array.isArray(fields) ? fields : [fields]
+        this.partitions.push(...normalized)
+        return this
+    }
+
+    /**
+     * Adds an ORDER BY expression.
+     * @param column - The column or Raw expression to order by.
+     * @param direction - The order direction ('ASC' or 'DESC'). Defaults to 'ASC'.
+     * @returns The current WindowSpec instance.
+     * @throws Error if the direction is not ASC or DESC.
+     */
+    orderBy(column: string | Raw, direction: 'ASC' | 'DESC' = 'ASC') {
+        const normalized = String(direction).toUpperCase()
+
+        if (normalized !== 'ASC' && normalized !== 'DESC') {
+            throw new Error(`Invalid order direction ${direction}`)
+        }
+
+        this.order.push({column, direction: normalized})
+        return this
+    }
+
+    /**
+     * Sets the frame clause, inserted as-is. Never build it from untrusted input.
+     * @param clause - The frame clause, e.g. `ROWS BETWEEN UNBOUNDED PRECEDING AND CURRENT ROW`.
+     * @returns The current WindowSpec instance.
+     * @throws Error if the clause does not start with ROWS, RANGE or GROUPS.
+     */
+    frame(clause: string) {
+        if (!/^\s*(ROWS|RANGE|GROUPS)\s/i.test(clause)) {
+            throw new Error(`Invalid window frame ${clause}`)
+        }
+
+        this.frameClause = clause.trim()
+        return this
+    }
+
+    /**
+     * Returns the window as a node, to be compiled by a dialect.
+     * @returns The window specification node.
+     */
+    toNode(): WindowSpecNode {
+        return {
+            base: this.baseWindow,
+            partitionBy: [...this.partitions],
+            orderBy: [...this.order],
+            frame: this.frameClause
+        }
+    }
+}
+
+/**
+ * A window function call, selected with QueryBuilder.select().
+ */
+export default class WindowExpression {
+    private alias?: string
+
+    /**
+     * Creates an instance of WindowExpression.
+     * @param fn - The function call, e.g. `ROW_NUMBER()` or `SUM("total")`, inserted as-is.
+     * @param over - The name of a window of the WINDOW clause, or the definition of the window.
+     */
+    constructor(
+        private fn: Raw,
+        private over: string | WindowSpec
+    ) {
+    }
+
+    /**
+     * Names the selected column.
+     * @param alias - The column alias.
+     * @returns The current WindowExpression instance.
+     */
+    as(alias: string) {
+        this.alias = alias
+        return this
+    }
+
+    /**
+     * Returns the window function call as a node, to be compiled by a dialect.
+     * @returns The window field node.
+     */
+    toNode(): WindowFieldNode {
+        return {
+            kind: 'window',
+            fn: this.fn,
+            over: typeof this.over === 'string' ? this.over : this.over.toNode(),
+            alias: this.alias
+        }
+    }
+}
+
+/**
+ * Builds a window function call. Never build the function call from untrusted input.
+ * @param fn - The function call, e.g. `ROW_NUMBER()` or `SUM("total")`, inserted as-is.
+ * @param window - The name of a window defined with QueryBuilder.window(), or a callback defining the window.
+ * Defaults to the whole result set.
+ * @returns A WindowExpression instance.
+ */
+export function over(fn: string | Raw, window?: string | ((w: WindowSpec) => void)): WindowExpression {
+    const sql = fn instanceof Raw ? fn : new Raw(fn)
+
+    if (typeof window === 'string') {
+        return new WindowExpression(sql, window)
+    }
+
+    const spec = new WindowSpec()
+    window?.(spec)
+
+    return new WindowExpression(sql, spec)
+}
@@ -0,0 +1,280 @@
+import QueryExecutor from '../core/QueryExecutor'
+
+export interface ColumnInfo {
+    name: string
+    /**
+     * The type name as reported by PostgreSQL, e.g. `int4`, `timestamptz`, or `_text` for an array of text.
+     */
+    type: string
+    /**
+     * The schema of the type, used to resolve enum types.
+     */
+    typeSchema: string
+    nullable: boolean
+    /**
+     * The default expression of the column, or null if it has none.
+     */
+    defaultValue: string | null
+    /**
+     * Whether the value is generated by the database (an identity or generated column).
+     */
+    generated: boolean
+}
+
+export type ForeignKeyAction = 'NO ACTION' | 'RESTRICT' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT'
+
+export interface ForeignKeyInfo {
+    name: string
+    columns: string[]
+    foreignSchema: string
+    foreignTable: string
+    foreignColumns: string[]
+    onUpdate: ForeignKeyAction
+    onDelete: ForeignKeyAction
+}
+
+export interface TableInfo {
+    schema: string
+    name: string
+    /**
+     * Whether the relation is a view rather than a base table.
+     */
+    view: boolean
+    columns: ColumnInfo[]
+    /**
+     * The primary key columns, in key order. Empty when the table has no primary key.
+     */
+    primaryKey: string[]
+    foreignKeys: ForeignKeyInfo[]
+}
+
+export interface EnumInfo {
+    schema: string
+    name: string
+    /**
+     * The labels of the enum, in sort order.
+     */
+    values: string[]
+}
+
+/**
+ * A description of the tables and enum types of one or more schemas.
+ */
+export interface SchemaInfo {
+    tables: TableInfo[]
+    enums: EnumInfo[]
+}
+
+const FOREIGN_KEY_ACTIONS: Record<string, ForeignKeyAction> = {
+    a: 'NO ACTION',
+    r: 'RESTRICT',
+    c: 'CASCADE',
+    n: 'SET NULL',
+    d: 'SET DEFAULT'
+}
+
+/**
+ * Reads the structure of a database from `information_schema` and `pg_catalog`.
+ */
+export default class Introspector {
+    /**
+     * Creates an instance of Introspector.
+     * @param executor - The QueryExecutor instance for executing queries.
+     */
+    constructor(private executor: QueryExecutor) {
+    }
+
+    /**
+     * Describes the tables, views and enum types of the given schemas.
+     * @param schemas - The schemas to read. Defaults to `public`.
+     * @returns A Promise that resolves to the schema description.
+     */
+    async introspect(schemas: string[] = ['public']): Promise<SchemaInfo> {
+        const [tables, columns, primaryKeys, foreignKeys, enums] = await Promise.all([
+            this.getTables(schemas),
+            this.getColumns(schemas),
+            this.getPrimaryKeys(schemas),
+            this.getForeignKeys(schemas),
+            this.getEnums(schemas)
+        ])
+
+        const key = (schema: string, table: string) => `${schema}.${table}`
+
+        return {
+            tables: tables.map(table => {
+                const id = key(table.schema, table.name)
+
+                return {
+                    ...table,
+                    columns: columns.get(id) ?? [],
+                    primaryKey: primaryKeys.get(id) ?? [],
+                    foreignKeys: foreignKeys.get(id) ?? []
+                }
+            }),
+            enums
+        }
+    }
+
+    /**
+     * Lists the tables and views of the given schemas.
+     * @param schemas - The schemas to read.
+     * @returns A Promise that resolves to the tables, without their columns and keys.
+     */
+    async getTables(schemas: string[]): Promise<Pick<TableInfo, 'schema' | 'name' | 'view'>[]> {
+        const result = await this.executor.execute(
+            `SELECT table_schema, table_name, table_type
+             FROM information_schema.tables
+             WHERE table_schema = ANY($1) AND table_type IN ('BASE TABLE', 'VIEW')
+             ORDER BY table_schema, table_name`,
+            [schemas]
+        )
+
+        return result.rows.map(row => ({
+            schema: row.table_schema,
+            name: row.table_name,
+            view: row.table_type === 'VIEW'
+        }))
+    }
+
+    /**
+     * Lists the columns of the tables of the given schemas.
+     * @param schemas - The schemas to read.
+     * @returns A Promise that resolves to the columns in ordinal order, by `schema.table`.
+     */
+    async getColumns(schemas: string[]): Promise<Map<string, ColumnInfo[]>> {
+        const result = await this.executor.execute(
+            `SELECT table_schema, table_name, column_name, udt_schema, udt_name,
+                    is_nullable, column_default, is_identity, is_generated
+             FROM information_schema.columns
+             WHERE table_schema = ANY($1)
+             ORDER BY table_schema, table_name, ordinal_position`,
+            [schemas]
+        )
+
+        return groupBy(result.rows, row => `${row.table_schema}.${row.table_name}`, row => ({
+            name: row.column_name,
+            type: row.udt_name,
+            typeSchema: row.udt_schema,
+            nullable: row.is_nullable === 'YES',
+            defaultValue: row.column_default,
+            generated: row.is_identity === 'YES' || row.is_generated === 'ALWAYS'
+        }))
+    }
+
+    /**
+     * Lists the primary key columns of the tables of the given schemas.
+     * @param schemas - The schemas to read.
+     * @returns A Promise that resolves to the key columns in key order, by `schema.table`.
+     */
+    async getPrimaryKeys(schemas: string[]): Promise<Map<string, string[]>> {
+        const result = await this.executor.execute(
+            `SELECT tc.table_schema, tc.table_name, kcu.column_name
+             FROM information_schema.table_constraints tc
+             JOIN information_schema.key_column_usage kcu
+               ON kcu.constraint_schema = tc.constraint_schema
+              AND kcu.constraint_name = tc.constraint_name
+              AND kcu.table_name = tc.table_name
+             WHERE tc.constraint_type = 'PRIMARY KEY' AND tc.table_schema = ANY($1)
+             ORDER BY tc.table_schema, tc.table_name, kcu.ordinal_position`,
+            [schemas]
+        )
+
+        return groupBy(result.rows, row => `${row.table_schema}.${row.table_name}`, row => row.column_name)
+    }
+
+    /**
+     * Lists the foreign keys of the tables of the given schemas.
+     * @param schemas - The schemas to read.
+     * @returns A Promise that resolves to the foreign keys, by `schema.table`.
+     */
+    async getForeignKeys(schemas: string[]): Promise<Map<string, ForeignKeyInfo[]>> {
+        const result = await this.executor.execute(
+            `SELECT con.conname::text AS name,
+                    n.nspname::text AS table_schema,
+                    c.relname::text AS table_name,
+                    fn.nspname::text AS foreign_schema,
+                    fc.relname::text AS foreign_table,
+                    ARRAY(
+                        SELECT a.attname::text
+                        FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+                        JOIN pg_catalog.pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+                        ORDER BY k.ord
+                    ) AS columns,
+                    ARRAY(
+                        SELECT a.attname::text
+                        FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+                        JOIN pg_catalog.pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+                        ORDER BY k.ord
+                    ) AS foreign_columns,
+                    con.confupdtype::text AS on_update,
+                    con.confdeltype::text AS on_delete
+             FROM pg_catalog.pg_constraint con
+             JOIN pg_catalog.pg_class c ON c.oid = con.conrelid
+             JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+             JOIN pg_catalog.pg_class fc ON fc.oid = con.confrelid
+             JOIN pg_catalog.pg_namespace fn ON fn.oid = fc.relnamespace
+             WHERE con.contype = 'f' AND n.nspname = ANY($1)
+             ORDER BY n.nspname, c.relname, con.conname`,
+            [schemas]
+        )
+
+        return groupBy(result.rows, row => `${row.table_schema}.${row.table_name}`, row => ({
+            name: row.name,
+            columns: row.columns,
+            foreignSchema: row.foreign_schema,
+            foreignTable: row.foreign_table,
+            foreignColumns: row.foreign_columns,
+            onUpdate: FOREIGN_KEY_ACTIONS[row.on_update] ?? 'NO ACTION',
+            onDelete: FOREIGN_KEY_ACTIONS[row.on_delete] ?? 'NO ACTION'
+        }))
+    }
+
+    /**
+     * Lists the enum types of the given schemas.
+     * @param schemas - The schemas to read.
+     * @returns A Promise that resolves to the enum types and their labels.
+     */
+    async getEnums(schemas: string[]): Promise<EnumInfo[]> {
+        const result = await this.executor.execute(
+            `SELECT n.nspname::text AS enum_schema, t.typname::text AS enum_name, e.enumlabel AS value
+             FROM pg_catalog.pg_type t
+             JOIN pg_catalog.pg_enum e ON e.enumtypid = t.oid
+             JOIN pg_catalog.pg_namespace n ON n.oid = t.typnamespace
+             WHERE n.nspname = ANY($1)
+             ORDER BY n.nspname, t.typname, e.enumsortorder`,
+            [schemas]
+        )
+
+        const enums: EnumInfo[] = []
+
+        result.rows.forEach(row => {
+            const last = enums[enums.length - 1]
+
+            if (last && last.schema === row.enum_schema && last.name === row.enum_name) {
+                last.values.push(row.value)
+            } else {
+                enums.push({schema: row.enum_schema, name: row.enum_name, values: [row.value]})
+            }
+        })
+
+        return enums
+    }
+}
+
+/**
+ * Groups rows by a key, mapping each row to a value. Groups keep the order of the rows.
+ * @param rows - The rows to group.
+ * @param key - Computes the key of a row.
+ * @param value - Maps a row to the value stored in its group.
+ * @returns The values by key.
+ */
+function groupBy<V>(rows: any[], key: (row: any) => string, value: (row: any) => V): Map<string, V[]> {
+    const groups = new Map<string, V[]>()
+
+    rows.forEach(row => {
+        const id = key(row)
+        groups.set(id, [...(groups.get(id) ?? []), value(row)])
+    })
+
+    return groups
+}
@@ -0,0 +1,222 @@
+import {ColumnInfo, EnumInfo, SchemaInfo, TableInfo} from './Introspector'
+
+export interface TypeGeneratorOptions {
+    /**
+     * The schema whose tables are keyed by their bare name in the table map. Other tables are keyed as `schema.table`.
+     * Defaults to `public`.
+     */
+    defaultSchema?: string
+    /**
+     * The name of the generated table map interface. Defaults to `Tables`.
+     */
+    tableMapName?: string
+}
+
+/**
+ * The TypeScript types of the PostgreSQL built-in types, as returned by the `pg` driver with its default parsers.
+ * 64-bit integers and numerics are returned as strings to avoid losing precision.
+ */
+const TYPE_MAP: Record<string, string> = {
+    int2: 'number',
+    int4: 'number',
+    float4: 'number',
+    float8: 'number',
+    oid: 'number',
+    int8: 'string',
+    numeric: 'string',
+    money: 'string',
+    bool: 'boolean',
+    text: 'string',
+    varchar: 'string',
+    bpchar: 'string',
+    char: 'string',
+    name: 'string',
+    citext: 'string',
+    uuid: 'string',
+    inet: 'string',
+    cidr: 'string',
+    macaddr: 'string',
+    time: 'string',
+    timetz: 'string',
+    interval: 'string',
+    date: 'Date',
+    timestamp: 'Date',
+    timestamptz: 'Date',
+    json: 'unknown',
+    jsonb: 'unknown',
+    bytea: 'Buffer'
+}
+
+/**
+ * Generates TypeScript source declaring a row interface per table, a union type per enum,
+ * and a table map from table names to row interfaces, to type `Database` with.
+ */
+export default class TypeGenerator {
+    private defaultSchema: string
+    private tableMapName: string
+
+    /**
+     * Creates an instance of TypeGenerator.
+     * @param options - The default schema and the name of the table map.
+     */
+    constructor(options: TypeGeneratorOptions = {}) {
+        this.defaultSchema = options.defaultSchema ?? 'public'
+        this.tableMapName = options.tableMapName ?? 'Tables'
+    }
+
+    /**
+     * Generates the source of a TypeScript module describing the schema.
+     * @param schema - The schema description, as returned by Introspector.introspect().
+     * @returns The TypeScript source.
+     */
+    generate(schema: SchemaInfo): string {
+        const used = new Set<string>([this.tableMapName])
+        const tableNames = new Map<TableInfo, string>()
+        const enumNames = new Map<string, string>()
+
+        schema.tables.forEach(table => {
+            tableNames.set(table, uniqueName(this.typeName(table.schema, table.name), used))
+        })
+
+        schema.enums.forEach(info => {
+            enumNames.set(`${info.schema}.${info.name}`, uniqueName(this.typeName(info.schema, info.name), used))
+        })
+
+        const blocks = [
+            '// Generated by pg-query-sdk from the database schema. Do not edit.',
+            ...schema.enums.map(info => this.generateEnum(enumNames.get(`${info.schema}.${info.name}`)!, info)),
+            ...schema.tables.map(table => this.generateTable(tableNames.get(table)!, table, enumNames)),
+            this.generateTableMap(schema.tables, tableNames)
+        ]
+
+        return blocks.join('\n\n') + '\n'
+    }
+
+    /**
+     * Generates the union type of an enum.
+     * @param name - The name of the type.
+     * @param info - The enum description.
+     * @returns The TypeScript source.
+     */
+    private generateEnum(name: string, info: EnumInfo): string {
+        const values = info.values.length
+            ? info.values.map(value => stringLiteral(value)).join(' | ')
+            : 'never'
+
+        return `export type ${name} = ${values}`
+    }
+
+    /**
+     * Generates the row interface of a table.
+     * @param name - The name of the interface.
+     * @param table - The table description.
+     * @param enumNames - The generated enum type names, by `schema.name`.
+     * @returns The TypeScript source.
+     */
+    private generateTable(name: string, table: TableInfo, enumNames: Map<string, string>): string {
+        const properties = table.columns.map(column =>
+            `    ${propertyName(column.name)}: ${this.columnType(column, enumNames)}`
+        )
+
+        return [
+            `/**\n * A row of the ${`${table.schema}.${table.name}`.replace(/\*\//g, '*\\/')} ${table.view ? 'view' : 'table'}.\n */`,
+            `export interface ${name} {`,
+            ...properties,
+            '}'
+        ].join('\n')
+    }
+
+    /**
+     * Generates the table map interface.
+     * @param tables - The table descriptions.
+     * @param tableNames - The generated row interface names.
+     * @returns The TypeScript source.
+     */
+    private generateTableMap(tables: TableInfo[], tableNames: Map<TableInfo, string>): string {
+        const entries = tables.map(table => {
+            const key = table.schema === this.defaultSchema ? table.name : `${table.schema}.${table.name}`
+            return `    ${propertyName(key)}: ${tableNames.get(table)}`
+        })
+
+        return [
+            `export interface ${this.tableMapName} {`,
+            ...entries,
+            '}'
+        ].join('\n')
+    }
+
+    /**
+     * Resolves the TypeScript type of a column.
+     * @param column - The column description.
+     * @param enumNames - The generated enum type names, by `schema.name`.
+     * @returns The TypeScript type.
+     */
+    private columnType(column: ColumnInfo, enumNames: Map<string, string>): string {
+        const isArray = column.type.startsWith('_')
+        const type = isArray ? column.type.slice(1) : column.type
+
+        const base = enumNames.get(`${column.typeSchema}.${type}`) ?? TYPE_MAP[type] ?? 'unknown'
+        const resolved = isArray
+            ? (base.includes(' ') ? `(${base})[]` : `${base}[]`)
+            : base
+
+        return column.nullable ? `${resolved} | null` : resolved
+    }
+
+    /**
+     * Builds a PascalCase type name from a table or enum name, prefixed with its schema outside of the default schema.
+     * @param schema - The schema of the table or enum.
+     * @param name - The name of the table or enum.
+     * @returns The type name.
+     */
+    private typeName(schema: string, name: string): string {
+        const words = (schema === this.defaultSchema ? name : `${schema}_${name}`)
+            .split(/[^A-Za-z0-9]+/)
+            .filter(Boolean)
+
+        const pascal = words.map(word => word[0].toUpperCase() + word.slice(1)).join('')
+
+        return /^[A-Za-z_]/.test(pascal) ? pascal : `T${pascal}`
+    }
+}
+
+/**
+ * Returns a name not used yet, appending a number when needed, and marks it as used.
+ * @param name - The preferred name.
+ * @param used - The names already used.
+ * @returns The unique name.
+ */
+function uniqueName(name: string, used: Set<string>): string {
+    let unique = name
+
+    for (let i = 2; used.has(unique); i++) {
+        unique = `${name}${i}`
+    }
+
+    used.add(unique)
+
+    return unique
+}
+
+/**
+ * Formats a property name, quoting it when it is not a valid identifier.
+ * @param name - The property name.
+ * @returns The property name as written in TypeScript.
+ */
+function propertyName(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : stringLiteral(name)
+}
+
+/**
+ * Formats a single-quoted string literal.
+ * @param value - The string value.
+ * @returns The string literal.
+ */
+function stringLiteral(value: string): string {
+    const escaped = value
+        .replace(/\\/g, '\\\\')
+        .replace(/'/g, "\\'")
+        .replace(/\n/g, '\\n')
+
+    return `'${escaped}'`
+}